@@ -0,0 +1,129 @@
+import { hmac } from "@noble/hashes/hmac.js";
+import { sha256 } from "@noble/hashes/sha2.js";
+import { base64urlnopad } from "@scure/base";
+import { ClaimValidationError } from "../errors.js";
+import { ChallengeSchema } from "../schemas.js";
+import { equalBytes } from "../utils/encoding.js";
+import { generateNonce } from "../utils/nonce.js";
+
+const CHALLENGE_DOMAIN = "near-sign-verify:challenge:v1";
+
+/**
+ * Options for `createChallenge`.
+ */
+export interface CreateChallengeOptions {
+  /** The recipient the challenge will be signed for. */
+  recipient: string;
+  /** How long the challenge may be used for, in milliseconds. */
+  ttl: number;
+  /** Server secret the challenge is bound to. Keep it private and at least 32 bytes. */
+  secret: string | Uint8Array;
+}
+
+/**
+ * A server-issued challenge, to be passed to `sign` as `nonce` and `state`.
+ */
+export interface Challenge {
+  /** 32-byte nonce, timestamped like `generateNonce`. */
+  nonce: Uint8Array;
+  /** State carrying the challenge's expiry and MAC. */
+  state: string;
+  /** The recipient the challenge was issued for. */
+  recipient: string;
+  /** Expiry of the challenge, in ms since epoch. */
+  expiresAt: number;
+}
+
+function computeChallengeMac(
+  secret: string | Uint8Array,
+  nonce: Uint8Array,
+  recipient: string,
+  expiresAt: number,
+): Uint8Array {
+  const key =
+    typeof secret === "string" ? new TextEncoder().encode(secret) : secret;
+  const data = ChallengeSchema.serialize({
+    nonce: Array.from(nonce),
+    recipient,
+    expiresAt: BigInt(expiresAt),
+  });
+  const domain = new TextEncoder().encode(CHALLENGE_DOMAIN);
+  const message = new Uint8Array(domain.length + data.length);
+  message.set(domain, 0);
+  message.set(data, domain.length);
+  return hmac(sha256, key, message);
+}
+
+/**
+ * Issue a stateless challenge for a client to sign.
+ * The nonce and state are bound to the server secret, recipient and expiry with
+ * an HMAC, so `verifyChallenge` can check them without server-side storage.
+ * Pair with a `nonceStore` to also make each challenge single-use.
+ * @param options The challenge options.
+ * @returns The challenge to pass to `sign` as `nonce` and `state`.
+ */
+export function createChallenge(options: CreateChallengeOptions): Challenge {
+  const { recipient, ttl, secret } = options;
+  const nonce = generateNonce();
+  const expiresAt = Date.now() + ttl;
+  const mac = computeChallengeMac(secret, nonce, recipient, expiresAt);
+
+  return {
+    nonce,
+    state: `${expiresAt}.${base64urlnopad.encode(mac)}`,
+    recipient,
+    expiresAt,
+  };
+}
+
+/**
+ * Verify that a nonce and state were issued by `createChallenge` with this secret
+ * for this recipient, and that the challenge has not expired.
+ * @param challenge The nonce, state and recipient from the token.
+ * @param secret The server secret used to issue the challenge.
+ * @throws ClaimValidationError with code CHALLENGE_INVALID or CHALLENGE_EXPIRED
+ */
+export function verifyChallenge(
+  challenge: {
+    nonce: Uint8Array;
+    state: string | null | undefined;
+    recipient: string;
+  },
+  secret: string | Uint8Array,
+): void {
+  const { nonce, state, recipient } = challenge;
+  const match = /^(\d{1,16})\.([A-Za-z0-9_-]+)$/.exec(state ?? "");
+  if (!match || nonce.length !== 32) {
+    throw new ClaimValidationError(
+      "CHALLENGE_INVALID",
+      "Challenge verification failed: state is not a server challenge.",
+    );
+  }
+
+  const expiresAt = parseInt(match[1], 10);
+  let mac: Uint8Array;
+  try {
+    mac = base64urlnopad.decode(match[2]);
+  } catch (error) {
+    throw new ClaimValidationError(
+      "CHALLENGE_INVALID",
+      "Challenge verification failed: state is not a server challenge.",
+      { cause: error },
+    );
+  }
+
+  const expectedMac = computeChallengeMac(secret, nonce, recipient, expiresAt);
+  if (!equalBytes(mac, expectedMac)) {
+    throw new ClaimValidationError(
+      "CHALLENGE_INVALID",
+      "Challenge verification failed: nonce and state were not issued for this recipient.",
+    );
+  }
+  if (Date.now() > expiresAt) {
+    throw new ClaimValidationError(
+      "CHALLENGE_EXPIRED",
+      "Challenge verification failed: challenge has expired.",
+      { details: { expiresAt } },
+    );
+  }
+}
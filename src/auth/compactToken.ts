@@ -0,0 +1,100 @@
+import { base58, base64 } from "@scure/base";
+import { ED25519_PREFIX, SECP256K1_PREFIX } from "../crypto/crypto.js";
+import type { CompactNearAuthData, NearAuthData } from "../schemas.js";
+
+const KEY_LENGTHS = {
+  Ed25519: { prefix: ED25519_PREFIX, publicKey: 32, signature: 64 },
+  Secp256k1: { prefix: SECP256K1_PREFIX, publicKey: 64, signature: 65 },
+} as const;
+
+type CompactKeyType = keyof typeof KEY_LENGTHS;
+
+function decodeExact(
+  encoded: string,
+  codec: typeof base58 | typeof base64,
+  length: number,
+  what: string,
+): number[] {
+  let bytes: Uint8Array;
+  try {
+    bytes = codec.decode(encoded);
+  } catch (error) {
+    throw new Error(`Cannot store ${what} in a compact token: not decodable.`, {
+      cause: error,
+    });
+  }
+  // Only canonical encodings survive the round trip through raw bytes.
+  if (bytes.length !== length || codec.encode(bytes) !== encoded) {
+    throw new Error(
+      `Cannot store ${what} in a compact token: expected ${length} bytes.`,
+    );
+  }
+  return Array.from(bytes);
+}
+
+/**
+ * Convert NearAuthData to the compact (v2) token body.
+ * @throws Error if the public key is not an ed25519 or secp256k1 key, or the key or
+ * signature does not have the length of its key type
+ */
+export function toCompactAuthData(authData: NearAuthData): CompactNearAuthData {
+  const keyType = (Object.keys(KEY_LENGTHS) as CompactKeyType[]).find((type) =>
+    authData.publicKey.startsWith(KEY_LENGTHS[type].prefix),
+  );
+  if (!keyType) {
+    throw new Error(
+      `Cannot store public key in a compact token: must start with "${ED25519_PREFIX}" or "${SECP256K1_PREFIX}".`,
+    );
+  }
+
+  const lengths = KEY_LENGTHS[keyType];
+  const key = {
+    publicKey: decodeExact(
+      authData.publicKey.substring(lengths.prefix.length),
+      base58,
+      lengths.publicKey,
+      "public key",
+    ),
+    signature: decodeExact(
+      authData.signature,
+      base64,
+      lengths.signature,
+      "signature",
+    ),
+  };
+
+  return {
+    accountId: authData.accountId,
+    key: keyType === "Ed25519" ? { Ed25519: key } : { Secp256k1: key },
+    message: authData.message,
+    nonce: authData.nonce,
+    recipient: authData.recipient,
+    callbackUrl: authData.callbackUrl,
+    state: authData.state,
+  };
+}
+
+/**
+ * Convert a compact (v2) token body back to NearAuthData.
+ */
+export function fromCompactAuthData(
+  compact: CompactNearAuthData,
+): NearAuthData {
+  const [keyType, key] =
+    "Ed25519" in compact.key
+      ? (["Ed25519", compact.key.Ed25519] as const)
+      : (["Secp256k1", compact.key.Secp256k1] as const);
+
+  return {
+    accountId: compact.accountId,
+    publicKey:
+      KEY_LENGTHS[keyType].prefix +
+      base58.encode(new Uint8Array(key.publicKey)),
+    signature: base64.encode(new Uint8Array(key.signature)),
+    message: compact.message,
+    nonce: compact.nonce,
+    recipient: compact.recipient,
+    callbackUrl: compact.callbackUrl,
+    state: compact.state,
+  };
+}
@@ -1,13 +1,58 @@
-import { base64 } from "@scure/base";
 import type { NearAuthData } from "../schemas.js";
-import { NearAuthDataSchema } from "../schemas.js";
+import { CompactNearAuthDataSchema, NearAuthDataSchema } from "../schemas.js";
+import { toCompactAuthData } from "./compactToken.js";
+import {
+  DEFAULT_TOKEN_VERSION,
+  encodeTokenEnvelope,
+  encodeTokenString,
+  type AuthTokenEncoding,
+  type AuthTokenVersion,
+  type TokenValidity,
+} from "./tokenFormat.js";
+
+/**
+ * Options for `createAuthToken`.
+ */
+export interface AuthTokenOptions {
+  /**
+   * Token format version. Defaults to 0 (unversioned), or 1 if `validity` is set.
+   * Use 1 once servers support versioned tokens, or 2 for the compact format,
+   * which stores the public key and signature as raw bytes.
+   */
+  version?: AuthTokenVersion;
+  /**
+   * Text encoding of the token. Defaults to "base64".
+   * Use "base64url" for tokens passed in URLs. `parseAuthToken` detects either encoding.
+   */
+  encoding?: AuthTokenEncoding;
+  /**
+   * Validity period to include in the token (version 1 or later).
+   * Only enforced by `verify` if it is also bound to the nonce with `bindValidityToNonce`.
+   */
+  validity?: TokenValidity;
+}
 
 /**
  * Create properly formatted auth token for API authentication
  * @param authData NEAR authentication data
- * @returns Auth token string (Base64 encoded Zorsh serialized data)
+ * @param options Optional token format options
+ * @returns Auth token string (Base64 or base64url encoded, versioned, Zorsh serialized data)
+ * @throws Error if the version is 2 and the key or signature cannot be stored as raw bytes
  */
-export function createAuthToken(authData: NearAuthData): string {
-  const serialized = NearAuthDataSchema.serialize(authData);
-  return base64.encode(serialized);
+export function createAuthToken(
+  authData: NearAuthData,
+  options: AuthTokenOptions = {},
+): string {
+  const hasValidity =
+    options.validity?.expiresAt !== undefined ||
+    options.validity?.notBefore !== undefined;
+  const version = options.version ?? (hasValidity ? 1 : DEFAULT_TOKEN_VERSION);
+  const serialized =
+    version === 2
+      ? CompactNearAuthDataSchema.serialize(toCompactAuthData(authData))
+      : NearAuthDataSchema.serialize(authData);
+  return encodeTokenString(
+    encodeTokenEnvelope(version, serialized, options.validity),
+    options.encoding,
+  );
 }
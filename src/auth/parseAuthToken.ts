@@ -1,29 +1,64 @@
-import { base64 } from "@scure/base";
+import { NearAuthError, TokenMalformedError } from "../errors.js";
 import type { NearAuthData } from "../schemas.js";
-import { NearAuthDataSchema } from "../schemas.js";
+import { CompactNearAuthDataSchema, NearAuthDataSchema } from "../schemas.js";
+import { fromCompactAuthData } from "./compactToken.js";
+import {
+  decodeTokenEnvelope,
+  decodeTokenString,
+  type AuthTokenVersion,
+  type TokenValidity,
+} from "./tokenFormat.js";
 
 /**
- * Parse a NEAR auth token into NearAuthData
- * @param authToken The authorization token string (Base64 encoded Zorsh serialized data)
- * @returns NearAuthData
- * @throws Error if the token is invalid or missing required fields
+ * Decode a NEAR auth token of any supported version.
+ * @param authToken The authorization token string
+ * @returns The token's format version, validity period if any, and NearAuthData
+ * @throws TokenMalformedError if the token is invalid, TokenVersionError if its version is unsupported
  */
-export function parseAuthToken(authToken: string): NearAuthData {
+export function decodeAuthToken(authToken: string): {
+  version: AuthTokenVersion;
+  validity?: TokenValidity;
+  data: NearAuthData;
+} {
   try {
-    const serialized = base64.decode(authToken);
-    const deserialized = NearAuthDataSchema.deserialize(serialized);
+    const { version, validity, body } = decodeTokenEnvelope(
+      decodeTokenString(authToken),
+    );
+    const deserialized =
+      version === 2
+        ? fromCompactAuthData(CompactNearAuthDataSchema.deserialize(body))
+        : NearAuthDataSchema.deserialize(body);
 
     if (!deserialized) {
       throw new Error("Deserialization failed: null result");
     }
 
-    return deserialized;
+    return validity
+      ? { version, validity, data: deserialized }
+      : { version, data: deserialized };
   } catch (error) {
+    if (error instanceof NearAuthError) {
+      throw error;
+    }
     if (error instanceof Error) {
-      throw new Error(
+      throw new TokenMalformedError(
         `Invalid auth token: ${error.message.replace(/^Error: /, "")}`,
+        { cause: error },
       );
     }
-    throw new Error(`Invalid auth token: ${String(error)}`);
+    throw new TokenMalformedError(`Invalid auth token: ${String(error)}`, {
+      cause: error,
+    });
   }
 }
+
+/**
+ * Parse a NEAR auth token into NearAuthData
+ * Accepts versioned tokens, including compact (v2) ones, and the original unversioned (v0) layout.
+ * @param authToken The authorization token string (Base64 or base64url encoded Zorsh serialized data)
+ * @returns NearAuthData
+ * @throws TokenMalformedError if the token is invalid or missing required fields
+ */
+export function parseAuthToken(authToken: string): NearAuthData {
+  return decodeAuthToken(authToken).data;
+}
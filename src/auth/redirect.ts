@@ -0,0 +1,220 @@
+import type { NearAuthData } from "../schemas.js";
+import type { PendingSignRequestStorage, SignedMessage } from "../types.js";
+import { createAuthToken } from "./createAuthToken.js";
+import type { AuthTokenEncoding, AuthTokenVersion } from "./tokenFormat.js";
+
+/** Default storage key for the pending sign request. */
+export const DEFAULT_PENDING_SIGN_REQUEST_KEY = "near-sign-verify:pending-sign";
+
+/**
+ * The parameters of a sign request sent to a redirect-based wallet,
+ * kept until the wallet redirects back to the callback URL.
+ */
+export interface PendingSignRequest {
+  message: string;
+  recipient: string;
+  nonce: Uint8Array;
+  callbackUrl: string;
+  state?: string;
+  /** Signed expiry of the token, in ms since epoch. */
+  expiresAt?: number;
+  /** Signed start of the token's validity, in ms since epoch. */
+  notBefore?: number;
+}
+
+/**
+ * Options for `completeRedirectSign`.
+ */
+export interface CompleteRedirectSignOptions {
+  /** The storage the pending sign request was saved in by `sign`. */
+  storage: PendingSignRequestStorage;
+  /** Storage key of the pending sign request. Defaults to `DEFAULT_PENDING_SIGN_REQUEST_KEY`. */
+  storageKey?: string;
+  /** Format version of the produced token. Defaults to 0, or 1 if the request has an expiry or not-before time. */
+  tokenVersion?: AuthTokenVersion;
+  /** Text encoding of the produced token. Defaults to "base64". */
+  tokenEncoding?: AuthTokenEncoding;
+}
+
+/**
+ * Save a pending sign request before handing over to a redirect-based wallet.
+ * `sign` does this when given `pendingSignRequestStorage`.
+ * @param storage The storage to save the request in.
+ * @param request The request being signed.
+ * @param storageKey Storage key. Defaults to `DEFAULT_PENDING_SIGN_REQUEST_KEY`.
+ */
+export function savePendingSignRequest(
+  storage: PendingSignRequestStorage,
+  request: PendingSignRequest,
+  storageKey: string = DEFAULT_PENDING_SIGN_REQUEST_KEY,
+): void {
+  storage.setItem(
+    storageKey,
+    JSON.stringify({
+      message: request.message,
+      recipient: request.recipient,
+      nonce: Array.from(request.nonce),
+      callbackUrl: request.callbackUrl,
+      state: request.state ?? null,
+      expiresAt: request.expiresAt ?? null,
+      notBefore: request.notBefore ?? null,
+    }),
+  );
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+/**
+ * Load a pending sign request saved with `savePendingSignRequest`.
+ * @param storage The storage the request was saved in.
+ * @param storageKey Storage key. Defaults to `DEFAULT_PENDING_SIGN_REQUEST_KEY`.
+ * @returns The pending request, or null if there is none.
+ * @throws Error if the stored request is malformed.
+ */
+export function loadPendingSignRequest(
+  storage: PendingSignRequestStorage,
+  storageKey: string = DEFAULT_PENDING_SIGN_REQUEST_KEY,
+): PendingSignRequest | null {
+  const stored = storage.getItem(storageKey);
+  if (stored === null) {
+    return null;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stored);
+  } catch (error) {
+    throw new Error("Pending sign request is not valid JSON.", {
+      cause: error,
+    });
+  }
+  if (
+    !isRecord(parsed) ||
+    typeof parsed.message !== "string" ||
+    typeof parsed.recipient !== "string" ||
+    typeof parsed.callbackUrl !== "string" ||
+    !Array.isArray(parsed.nonce) ||
+    parsed.nonce.length !== 32 ||
+    !parsed.nonce.every(
+      (byte: unknown) =>
+        typeof byte === "number" &&
+        Number.isInteger(byte) &&
+        byte >= 0 &&
+        byte <= 0xff,
+    )
+  ) {
+    throw new Error("Pending sign request is malformed.");
+  }
+
+  return {
+    message: parsed.message,
+    recipient: parsed.recipient,
+    nonce: new Uint8Array(parsed.nonce),
+    callbackUrl: parsed.callbackUrl,
+    state: typeof parsed.state === "string" ? parsed.state : undefined,
+    expiresAt:
+      typeof parsed.expiresAt === "number" ? parsed.expiresAt : undefined,
+    notBefore:
+      typeof parsed.notBefore === "number" ? parsed.notBefore : undefined,
+  };
+}
+
+/**
+ * Parse the fragment a wallet appends to the callback URL:
+ * `<callbackUrl>#accountId=<accountId>&publicKey=<publicKey>&signature=<signature>&state=<state>`.
+ * @param url The full callback URL, or just its fragment (with or without the leading `#`).
+ * @returns The signed message reported by the wallet.
+ * @throws Error if the wallet reported an error or a field is missing.
+ */
+export function parseCallbackFragment(url: string): SignedMessage {
+  const hashIndex = url.indexOf("#");
+  const fragment = hashIndex === -1 ? url : url.substring(hashIndex + 1);
+
+  // Parsed by hand: URLSearchParams would turn a literal "+" of a base64 signature into a space.
+  const params = new Map<string, string>();
+  for (const pair of fragment.split("&")) {
+    if (!pair) continue;
+    const separator = pair.indexOf("=");
+    const key = separator === -1 ? pair : pair.substring(0, separator);
+    const value = separator === -1 ? "" : pair.substring(separator + 1);
+    params.set(decodeURIComponent(key), decodeURIComponent(value));
+  }
+
+  const error = params.get("error") ?? params.get("errorCode");
+  if (error) {
+    const description = params.get("errorMessage");
+    throw new Error(
+      `Wallet returned an error: ${error}${description ? ` (${description})` : ""}`,
+    );
+  }
+
+  const accountId = params.get("accountId");
+  const publicKey = params.get("publicKey");
+  const signature = params.get("signature");
+  if (!accountId || !publicKey || !signature) {
+    const missing = [
+      !accountId && "accountId",
+      !publicKey && "publicKey",
+      !signature && "signature",
+    ].filter(Boolean);
+    throw new Error(
+      `Invalid callback fragment: missing ${missing.join(", ")}.`,
+    );
+  }
+
+  const state = params.get("state");
+  return {
+    accountId,
+    publicKey,
+    signature,
+    ...(state ? { state } : {}),
+  };
+}
+
+/**
+ * Complete a sign request after a redirect-based wallet returns to the callback URL.
+ * Combines the wallet's signature from the URL fragment with the pending request
+ * saved by `sign`, checks that the returned state matches, and builds the auth token.
+ * The pending request is removed from storage once the token is built.
+ * @param url The callback URL the wallet redirected to (e.g. `window.location.href`).
+ * @param options Where the pending request was saved.
+ * @returns The auth token, as returned by `sign` for non-redirect wallets.
+ */
+export function completeRedirectSign(
+  url: string,
+  options: CompleteRedirectSignOptions,
+): string {
+  const storageKey = options.storageKey ?? DEFAULT_PENDING_SIGN_REQUEST_KEY;
+  const pending = loadPendingSignRequest(options.storage, storageKey);
+  if (!pending) {
+    throw new Error("No pending sign request found in storage.");
+  }
+
+  const signed = parseCallbackFragment(url);
+  if (signed.state !== pending.state) {
+    throw new Error(
+      "State returned by the wallet does not match the pending sign request.",
+    );
+  }
+
+  const authData: NearAuthData = {
+    accountId: signed.accountId,
+    publicKey: signed.publicKey,
+    signature: signed.signature,
+    message: pending.message,
+    nonce: Array.from(pending.nonce),
+    recipient: pending.recipient,
+    callbackUrl: pending.callbackUrl,
+    state: pending.state ?? null,
+  };
+  const token = createAuthToken(authData, {
+    version: options.tokenVersion,
+    encoding: options.tokenEncoding,
+    validity: { expiresAt: pending.expiresAt, notBefore: pending.notBefore },
+  });
+
+  options.storage.removeItem(storageKey);
+  return token;
+}
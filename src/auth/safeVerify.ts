@@ -0,0 +1,62 @@
+import { NearAuthError } from "../errors.js";
+import type { NearAuthErrorCode } from "../errors.js";
+import type { SafeVerifyResult, VerifyOptions } from "../types.js";
+import { verify } from "./verify.js";
+
+/** Codes for failures to verify, as opposed to failed verification. */
+const INFRASTRUCTURE_ERROR_CODES: NearAuthErrorCode[] = [
+  "OWNERSHIP_LOOKUP_UNAVAILABLE",
+  "NONCE_STORE_UNAVAILABLE",
+  "UNEXPECTED_ERROR",
+];
+
+/** Codes for verify options that are invalid, whatever the token. */
+const CONFIGURATION_ERROR_CODES: NearAuthErrorCode[] = [
+  "CONFIGURATION_INVALID",
+];
+
+/**
+ * Convert anything thrown during verification into a failed SafeVerifyResult.
+ * Errors that are not NearAuthErrors (e.g., thrown by a custom validator)
+ * are wrapped with the code "UNEXPECTED_ERROR".
+ */
+export function toVerifyFailure(
+  error: unknown,
+): Extract<SafeVerifyResult, { ok: false }> {
+  const nearAuthError =
+    error instanceof NearAuthError
+      ? error
+      : new NearAuthError(
+          "UNEXPECTED_ERROR",
+          error instanceof Error ? error.message : String(error),
+          { cause: error },
+        );
+
+  return {
+    ok: false,
+    error: nearAuthError,
+    reason: nearAuthError.code,
+    kind: INFRASTRUCTURE_ERROR_CODES.includes(nearAuthError.code)
+      ? "infrastructure"
+      : CONFIGURATION_ERROR_CODES.includes(nearAuthError.code)
+        ? "configuration"
+        : "authentication",
+  };
+}
+
+/**
+ * Verifies a NEAR authentication token string like `verify`, but never throws.
+ * @param authTokenString The Base64 encoded, Borsh-serialized NearAuthData string.
+ * @param options Optional verification parameters.
+ * @returns A promise that resolves to `{ ok: true, result }` or `{ ok: false, error, reason, kind }`.
+ */
+export async function safeVerify(
+  authTokenString: string,
+  options?: VerifyOptions,
+): Promise<SafeVerifyResult> {
+  try {
+    return { ok: true, result: await verify(authTokenString, options) };
+  } catch (error) {
+    return toVerifyFailure(error);
+  }
+}
@@ -1,14 +1,30 @@
-import { ed25519 } from "@noble/curves/ed25519.js";
-import { base58, base64 } from "@scure/base";
+import { base64 } from "@scure/base";
+import { createNEP413Payload, hashPayload } from "../crypto/crypto.js";
+import { isKeyPairString } from "../crypto/keyPair.js";
 import {
-  ED25519_PREFIX,
-  createNEP413Payload,
-  hashPayload,
-} from "../crypto/crypto.js";
+  createKeyPairSigner,
+  createWebCryptoSigner,
+  isCryptoKeyPair,
+  isSigner,
+} from "../crypto/signer.js";
 import { NearAuthData } from "../schemas.js";
-import type { SignOptions, SignedPayload, WalletInterface } from "../types.js";
+import type {
+  PendingSignRequestStorage,
+  SignMessageParams,
+  SignOptions,
+  SignedPayload,
+  Signer,
+  WalletInterface,
+} from "../types.js";
 import { generateNonce } from "../utils/nonce.js";
+import { bindStateToNonce, bindValidityToNonce } from "../utils/state.js";
 import { createAuthToken } from "./createAuthToken.js";
+import { savePendingSignRequest } from "./redirect.js";
+import type {
+  AuthTokenEncoding,
+  AuthTokenVersion,
+  TokenValidity,
+} from "./tokenFormat.js";
 
 interface InternalSignParameters {
   message: string;
@@ -16,10 +32,13 @@ interface InternalSignParameters {
   nonce: Uint8Array; // Actual nonce bytes
   callbackUrl?: string | null;
   state?: string | null;
+  tokenVersion?: AuthTokenVersion;
+  tokenEncoding?: AuthTokenEncoding;
+  validity?: TokenValidity;
 }
 
-async function _signWithKeyPair(
-  keyPair: string,
+async function _signWithSigner(
+  signer: Signer,
   signerId: string,
   params: InternalSignParameters,
 ): Promise<string> {
@@ -36,30 +55,13 @@ async function _signWithKeyPair(
 
   const payloadHash = hashPayload(dataToHash);
 
-  if (!keyPair.startsWith(ED25519_PREFIX)) {
-    throw new Error("Invalid KeyPair format: missing ed25519 prefix.");
-  }
-  const privateKeyBase58 = keyPair.substring(ED25519_PREFIX.length);
-  const privateKeyBytes = base58.decode(privateKeyBase58);
-
-  if (privateKeyBytes.length !== 64) {
-    throw new Error(
-      `Expected decoded private key to be 64 bytes for Ed25519, got ${privateKeyBytes.length}`,
-    );
-  }
-  const seed = privateKeyBytes.slice(0, 32); // Extract the 32-byte seed
-
-  const signedResult = ed25519.sign(payloadHash, seed);
-
-  const actualSignatureB64 = base64.encode(signedResult);
-
-  const publicKeyBytes = ed25519.getPublicKey(seed);
-  const publicKeyString = ED25519_PREFIX + base58.encode(publicKeyBytes);
+  const publicKey = await signer.getPublicKey();
+  const signature = await signer.signBytes(payloadHash);
 
   const nearAuthDataObject: NearAuthData = {
     accountId: signerId,
-    publicKey: publicKeyString,
-    signature: actualSignatureB64,
+    publicKey: publicKey,
+    signature: base64.encode(signature),
     message: message,
     nonce: Array.from(nonce),
     recipient: recipient,
@@ -67,20 +69,47 @@ async function _signWithKeyPair(
     state: params.state || null,
   };
 
-  return createAuthToken(nearAuthDataObject);
+  return createAuthToken(nearAuthDataObject, {
+    version: params.tokenVersion,
+    encoding: params.tokenEncoding,
+    validity: params.validity,
+  });
 }
 
 async function _signWithWallet(
   wallet: WalletInterface,
   params: InternalSignParameters,
+  pendingSignRequestStorage?: PendingSignRequestStorage,
 ): Promise<string> {
-  const { message, recipient, nonce, callbackUrl } = params;
+  const { message, recipient, nonce, callbackUrl, state } = params;
 
-  const walletResult = await wallet.signMessage({
-    message,
-    nonce,
-    recipient,
-  });
+  const signMessageParams: SignMessageParams = { message, nonce, recipient };
+  if (callbackUrl) {
+    signMessageParams.callbackUrl = callbackUrl;
+  }
+  if (state) {
+    signMessageParams.state = state;
+  }
+
+  // A redirect-based wallet navigates away during signMessage, so save the request first.
+  if (pendingSignRequestStorage && callbackUrl) {
+    savePendingSignRequest(pendingSignRequestStorage, {
+      message,
+      recipient,
+      nonce,
+      callbackUrl,
+      state: state || undefined,
+      ...params.validity,
+    });
+  }
+
+  const walletResult = await wallet.signMessage(signMessageParams);
+  // The requested state may be bound to the nonce, so a different one could never verify.
+  if (walletResult.state && walletResult.state !== state) {
+    throw new Error(
+      "State returned by the wallet does not match the requested state.",
+    );
+  }
 
   const nearAuthDataObject: NearAuthData = {
     accountId: walletResult.accountId,
@@ -90,28 +119,38 @@ async function _signWithWallet(
     nonce: Array.from(nonce),
     recipient: recipient,
     callbackUrl: callbackUrl || null,
-    state: walletResult.state || null,
+    state: state || null,
   };
 
-  return createAuthToken(nearAuthDataObject);
+  return createAuthToken(nearAuthDataObject, {
+    version: params.tokenVersion,
+    encoding: params.tokenEncoding,
+    validity: params.validity,
+  });
 }
 
 function detectSignerType(
-  signer: string | WalletInterface,
-): "keypair" | "wallet" {
+  signer: SignOptions["signer"],
+): "keypair" | "wallet" | "signer" | "cryptokeypair" {
   if (typeof (signer as WalletInterface).signMessage === "function") {
     return "wallet";
   }
-  if (typeof signer === "string" && signer.startsWith(ED25519_PREFIX)) {
+  if (isSigner(signer)) {
+    return "signer";
+  }
+  if (isCryptoKeyPair(signer)) {
+    return "cryptokeypair";
+  }
+  if (isKeyPairString(signer)) {
     return "keypair";
   }
   throw new Error(
-    "Invalid signer: must be KeyPair or a wallet object with a signMessage method.",
+    "Invalid signer: must be KeyPair or a wallet object with a signMessage method, a Signer with getPublicKey and signBytes methods, or an Ed25519 CryptoKeyPair.",
   );
 }
 
 /**
- * Signs a message using either a KeyPair or a wallet, creating a structured
+ * Signs a message using a KeyPair, a Signer, a WebCrypto CryptoKeyPair, or a wallet, creating a structured
  * message and producing a NEAR authentication token.
  *
  * @param message The message to sign, can be application specific data.
@@ -124,7 +163,42 @@ export async function sign(
 ): Promise<string> {
   const { signer, accountId, recipient, callbackUrl, nonce, state } = options;
 
-  const currentNonce = nonce || generateNonce();
+  const bindState = options.bindState ?? (!!state && !nonce);
+  if (bindState && nonce) {
+    throw new Error(
+      "bindState cannot be used with a caller-supplied nonce; bind the state with bindStateToNonce instead.",
+    );
+  }
+
+  let validity: TokenValidity | undefined;
+  if (options.expiresIn !== undefined || options.notBefore !== undefined) {
+    if (nonce) {
+      throw new Error(
+        "expiresIn and notBefore cannot be used with a caller-supplied nonce, as they are bound to the generated one.",
+      );
+    }
+    if (options.tokenVersion === 0) {
+      throw new Error(
+        "expiresIn and notBefore require a versioned token (tokenVersion 1 or later).",
+      );
+    }
+    validity = {
+      ...(options.expiresIn !== undefined
+        ? { expiresAt: Date.now() + options.expiresIn }
+        : {}),
+      ...(options.notBefore !== undefined
+        ? { notBefore: options.notBefore }
+        : {}),
+    };
+  }
+
+  let currentNonce = nonce || generateNonce();
+  if (validity) {
+    // Binds the state as well
+    currentNonce = bindValidityToNonce(currentNonce, validity, state);
+  } else if (bindState && state) {
+    currentNonce = bindStateToNonce(currentNonce, state);
+  }
 
   const internalParams: InternalSignParameters = {
     message: message,
@@ -132,6 +206,9 @@ export async function sign(
     nonce: currentNonce,
     callbackUrl: callbackUrl || null,
     state: state || null,
+    tokenVersion: options.tokenVersion,
+    tokenEncoding: options.tokenEncoding,
+    validity,
   };
 
   const signerType = detectSignerType(signer);
@@ -140,9 +217,40 @@ export async function sign(
     if (!accountId) {
       throw new Error("accountId is required when using a KeyPair signer.");
     }
-    return _signWithKeyPair(signer as string, accountId, internalParams);
+    return _signWithSigner(
+      createKeyPairSigner(signer as string),
+      accountId,
+      internalParams,
+    );
+  }
+
+  if (signerType === "cryptokeypair") {
+    if (!accountId) {
+      throw new Error(
+        "accountId is required when using a CryptoKeyPair signer.",
+      );
+    }
+    return _signWithSigner(
+      createWebCryptoSigner(signer as CryptoKeyPair),
+      accountId,
+      internalParams,
+    );
+  }
+
+  if (signerType === "signer") {
+    const signerAccountId = accountId ?? (signer as Signer).accountId;
+    if (!signerAccountId) {
+      throw new Error(
+        "accountId is required when the Signer does not provide one.",
+      );
+    }
+    return _signWithSigner(signer as Signer, signerAccountId, internalParams);
   }
 
   // For wallet, accountId comes from the wallet's response, not from options.
-  return _signWithWallet(signer as WalletInterface, internalParams);
+  return _signWithWallet(
+    signer as WalletInterface,
+    internalParams,
+    options.pendingSignRequestStorage,
+  );
 }
@@ -0,0 +1,171 @@
+import { base64, base64urlnopad } from "@scure/base";
+import { TokenMalformedError, TokenVersionError } from "../errors.js";
+import { TokenValiditySchema } from "../schemas.js";
+
+/** Magic bytes ("NSV") that start a versioned auth token. */
+const TOKEN_MAGIC = [0x4e, 0x53, 0x56];
+const HEADER_LENGTH = TOKEN_MAGIC.length + 2; // magic, version, flags
+
+/** Flag set when a validity section follows the header. */
+const FLAG_VALIDITY = 0x01;
+const VALIDITY_LENGTH = 16; // two u64s
+
+/**
+ * Auth token layouts:
+ * - 0: the original, unversioned Borsh-serialized NearAuthData.
+ * - 1: a header (magic "NSV", version byte, flags byte) followed by the v0 body.
+ * - 2: the same header followed by a compact body, with the key type, public key and
+ *   signature stored as raw bytes (`CompactNearAuthDataSchema`).
+ * Versioned tokens may carry a validity section between the header and the body.
+ */
+export type AuthTokenVersion = 0 | 1 | 2;
+
+/**
+ * The token version produced by default: unversioned, so that servers on releases
+ * that cannot read versioned tokens keep accepting them. Opt in to version 1 or 2
+ * once servers have upgraded.
+ */
+export const DEFAULT_TOKEN_VERSION: AuthTokenVersion = 0;
+
+const SUPPORTED_TOKEN_VERSIONS: readonly number[] = [0, 1, 2];
+
+/**
+ * The validity period of a token, in ms since epoch. Covered by the signature through
+ * the nonce (see `bindValidityToNonce`).
+ */
+export interface TokenValidity {
+  /** The token is rejected from this time on. */
+  expiresAt?: number;
+  /** The token is rejected before this time. */
+  notBefore?: number;
+}
+
+/**
+ * Text encodings of auth tokens:
+ * - "base64": standard base64 with padding.
+ * - "base64url": URL-safe base64 ("-" and "_") without padding, for query strings and links.
+ */
+export type AuthTokenEncoding = "base64" | "base64url";
+
+/**
+ * Encode token bytes as text.
+ */
+export function encodeTokenString(
+  bytes: Uint8Array,
+  encoding: AuthTokenEncoding = "base64",
+): string {
+  if (encoding === "base64url") {
+    return base64urlnopad.encode(bytes);
+  }
+  if (encoding !== "base64") {
+    throw new Error(`Unsupported auth token encoding: ${encoding}.`);
+  }
+  return base64.encode(bytes);
+}
+
+/**
+ * Decode token text of either encoding. A token containing "+", "/" or "=" is standard
+ * base64, and one containing "-" or "_" is base64url. A token with none of these is
+ * standard base64 if its length is a multiple of 4 (both alphabets then decode it the
+ * same way), and unpadded base64url otherwise.
+ */
+export function decodeTokenString(token: string): Uint8Array {
+  const isBase64Url =
+    !/[+/=]/.test(token) && (/[-_]/.test(token) || token.length % 4 !== 0);
+  return isBase64Url ? base64urlnopad.decode(token) : base64.decode(token);
+}
+
+/**
+ * Prefix a serialized token body with the header for its version, and the validity
+ * section if there is one. Version 0 tokens have no header.
+ * @throws Error if the version is unsupported, or is 0 and a validity is given
+ */
+export function encodeTokenEnvelope(
+  version: AuthTokenVersion,
+  body: Uint8Array,
+  validity?: TokenValidity,
+): Uint8Array {
+  if (!SUPPORTED_TOKEN_VERSIONS.includes(version)) {
+    throw new Error(`Unsupported auth token version: ${version}.`);
+  }
+  const hasValidity =
+    validity?.expiresAt !== undefined || validity?.notBefore !== undefined;
+  if (version === 0) {
+    if (hasValidity) {
+      throw new Error(
+        "expiresAt and notBefore require a versioned token (version 1 or later).",
+      );
+    }
+    return body;
+  }
+
+  const section = hasValidity
+    ? TokenValiditySchema.serialize({
+        expiresAt: BigInt(validity!.expiresAt ?? 0),
+        notBefore: BigInt(validity!.notBefore ?? 0),
+      })
+    : new Uint8Array(0);
+  const envelope = new Uint8Array(HEADER_LENGTH + section.length + body.length);
+  envelope.set(TOKEN_MAGIC, 0);
+  envelope[TOKEN_MAGIC.length] = version;
+  envelope[TOKEN_MAGIC.length + 1] = hasValidity ? FLAG_VALIDITY : 0;
+  envelope.set(section, HEADER_LENGTH);
+  envelope.set(body, HEADER_LENGTH + section.length);
+  return envelope;
+}
+
+/**
+ * Split a decoded token into its version, validity and body.
+ * A token without the magic bytes is a version 0 token. Version 0 tokens start with the
+ * little-endian length of the account ID, which can never match the magic bytes.
+ * @throws TokenVersionError if the version is not supported.
+ */
+export function decodeTokenEnvelope(bytes: Uint8Array): {
+  version: AuthTokenVersion;
+  validity?: TokenValidity;
+  body: Uint8Array;
+} {
+  const hasMagic = TOKEN_MAGIC.every((byte, i) => bytes[i] === byte);
+  if (!hasMagic) {
+    return { version: 0, body: bytes };
+  }
+  if (bytes.length < HEADER_LENGTH) {
+    throw new TokenMalformedError("Invalid auth token: truncated header");
+  }
+
+  const version = bytes[TOKEN_MAGIC.length];
+  if (!SUPPORTED_TOKEN_VERSIONS.includes(version)) {
+    throw new TokenVersionError(`Unsupported auth token version: ${version}.`, {
+      details: { version },
+    });
+  }
+  const flags = bytes[TOKEN_MAGIC.length + 1];
+  if ((flags & ~FLAG_VALIDITY) !== 0) {
+    throw new TokenMalformedError(
+      `Invalid auth token: unknown flags 0x${flags.toString(16)}`,
+    );
+  }
+  if (!(flags & FLAG_VALIDITY)) {
+    return {
+      version: version as AuthTokenVersion,
+      body: bytes.subarray(HEADER_LENGTH),
+    };
+  }
+
+  if (bytes.length < HEADER_LENGTH + VALIDITY_LENGTH) {
+    throw new TokenMalformedError(
+      "Invalid auth token: truncated validity section",
+    );
+  }
+  const { expiresAt, notBefore } = TokenValiditySchema.deserialize(
+    bytes.subarray(HEADER_LENGTH, HEADER_LENGTH + VALIDITY_LENGTH),
+  );
+  return {
+    version: version as AuthTokenVersion,
+    validity: {
+      ...(expiresAt ? { expiresAt: Number(expiresAt) } : {}),
+      ...(notBefore ? { notBefore: Number(notBefore) } : {}),
+    },
+    body: bytes.subarray(HEADER_LENGTH + VALIDITY_LENGTH),
+  };
+}
@@ -4,73 +4,179 @@ import {
   hashPayload,
   verifySignature,
 } from "../crypto/crypto.js";
+import {
+  ClaimValidationError,
+  KeyOwnershipError,
+  NearAuthError,
+  NonceValidationError,
+  OwnershipLookupError,
+  SignatureVerificationError,
+  TokenMalformedError,
+  TokenVersionError,
+} from "../errors.js";
+import { lookupWithCache, ownershipCacheKey } from "../ownership/cache.js";
+import { isImplicitAccountKey } from "../ownership/implicit.js";
+import {
+  checkNetworkOptions,
+  createNetworkKeyResolver,
+  isAccountOnNetwork,
+  resolveNetwork,
+} from "../ownership/network.js";
+import { validateSignInMessage, type SignInMessage } from "../siwn/message.js";
 import type {
+  AccessKeyPermission,
+  KeyResolver,
   NearAuthData,
+  NetworkConfig,
+  OwnershipCache,
   SignedPayload,
   VerificationResult,
   VerifyOptions,
 } from "../types.js";
-import { validateNonce } from "../utils/nonce.js";
-import { parseAuthToken } from "./parseAuthToken.js";
+import { DEFAULT_MAX_AGE, validateNonce } from "../utils/nonce.js";
+import {
+  hasBoundValidity,
+  isStateBoundToNonce,
+  isValidityBoundToNonce,
+} from "../utils/state.js";
+import { verifyChallenge } from "./challenge.js";
+import { decodeAuthToken } from "./parseAuthToken.js";
+import type { AuthTokenVersion, TokenValidity } from "./tokenFormat.js";
 
 async function verifyPublicKeyOwner(
+  keyResolver: KeyResolver,
   accountId: string,
   publicKey: string,
   requireFullAccessKey: boolean,
-): Promise<{ success: boolean; apiFailure?: boolean }> {
-  const isTestnet = accountId.endsWith(".testnet");
-  const baseUrl = isTestnet
-    ? "https://test.api.fastnear.com"
-    : "https://api.fastnear.com";
-  const pathSuffix = requireFullAccessKey ? "" : "/all";
-  const url = `${baseUrl}/v0/public_key/${publicKey}${pathSuffix}`;
+  cache?: { cache: OwnershipCache; key: string },
+): Promise<{
+  success: boolean;
+  apiFailure?: boolean;
+  error?: unknown;
+  permission?: AccessKeyPermission;
+  source?: "implicit" | "cache" | "resolver";
+}> {
+  const resolve = () =>
+    keyResolver.resolveAccessKey(accountId, publicKey, {
+      requireFullAccessKey,
+    });
 
+  let permission: AccessKeyPermission | null;
+  let source: "cache" | "resolver" = "resolver";
   try {
-    const response = await fetch(url);
-    if (!response.ok) {
-      return { success: false, apiFailure: true };
-    }
-    const data = await response.json();
-    if (data && Array.isArray(data.account_ids)) {
-      if (data.account_ids.includes(accountId)) {
-        return { success: true };
-      }
-      return { success: false, apiFailure: false }; // API success, but accountId not found
-    }
-    return { success: false, apiFailure: true }; // Unexpected API response format
+    if (cache) {
+      const cached = await lookupWithCache(cache.cache, cache.key, resolve);
+      permission = cached.permission;
+      source = cached.hit ? "cache" : "resolver";
+    } else {
+      permission = await resolve();
+    }
   } catch (error) {
-    return { success: false, apiFailure: true }; // Network error or JSON parsing error
+    return { success: false, apiFailure: true, error }; // Lookup could not be performed
   }
+
+  if (!permission) {
+    return { success: false, apiFailure: false }; // Key not found on the account
+  }
+  if (requireFullAccessKey && permission.type !== "FullAccess") {
+    return { success: false, apiFailure: false };
+  }
+  return { success: true, permission, source };
 }
 
 /**
- * Verifies a NEAR authentication token string.
- * This includes parsing the token, validating the message structure,
- * checking nonce, public key ownership, and the cryptographic signature.
- * Throws an error if verification fails at any step.
- * @param authTokenString The Base64 encoded, Borsh-serialized NearAuthData string.
- * @param options Optional verification parameters.
- * @returns A promise that resolves to VerificationResult if successful.
+ * Ensures a Function Call Access Key is scoped to the token's recipient,
+ * and optionally that it may call the required methods.
+ * Throws a KeyOwnershipError if the key's permission does not allow it.
  */
-export async function verify(
+function verifyFunctionCallPermission(
+  permission: Extract<AccessKeyPermission, { type: "FunctionCall" }>,
+  recipient: string,
+  requiredMethodNames?: string[],
+): void {
+  if (permission.receiverId === undefined) {
+    throw new KeyOwnershipError(
+      "KEY_PERMISSION_DENIED",
+      "Function call access key verification failed: key permission details are unavailable.",
+    );
+  }
+  if (permission.receiverId !== recipient) {
+    throw new KeyOwnershipError(
+      "KEY_PERMISSION_DENIED",
+      `Function call access key verification failed: key is restricted to '${permission.receiverId}', but recipient is '${recipient}'.`,
+      { details: { receiverId: permission.receiverId, recipient } },
+    );
+  }
+  if (!requiredMethodNames?.length) {
+    return;
+  }
+  const allowedMethodNames = permission.methodNames ?? [];
+  // An empty method list on the key means any method may be called.
+  const missing = allowedMethodNames.length
+    ? requiredMethodNames.filter((name) => !allowedMethodNames.includes(name))
+    : [];
+  if (missing.length) {
+    throw new KeyOwnershipError(
+      "KEY_PERMISSION_DENIED",
+      `Function call access key verification failed: key does not permit method(s) ${missing.map((name) => `'${name}'`).join(", ")}.`,
+      { details: { missingMethodNames: missing } },
+    );
+  }
+}
+
+/**
+ * A token whose claims (nonce, challenge, state, recipient, message, network) were validated.
+ */
+export interface VerifiedClaims {
+  authData: NearAuthData;
+  tokenVersion: AuthTokenVersion;
+  validity?: TokenValidity;
+  nonce: Uint8Array;
+  network: NetworkConfig;
+  signIn?: SignInMessage;
+}
+
+/**
+ * Parses the token and validates everything that does not need the key's owner
+ * or the signature: nonce, validity period, server challenge, state binding,
+ * recipient, state, message, account network, and Sign-In With NEAR message.
+ */
+export async function verifyClaims(
   authTokenString: string,
   options?: VerifyOptions,
-): Promise<VerificationResult> {
+): Promise<VerifiedClaims> {
   let authData: NearAuthData;
+  let tokenVersion: AuthTokenVersion;
+  let validity: TokenValidity | undefined;
   try {
-    authData = parseAuthToken(authTokenString);
+    ({
+      data: authData,
+      version: tokenVersion,
+      validity,
+    } = decodeAuthToken(authTokenString));
   } catch (e: any) {
-    throw new Error(`Failed to parse auth token: ${e.message}`);
+    if (e instanceof TokenVersionError) {
+      throw e;
+    }
+    throw new TokenMalformedError(`Failed to parse auth token: ${e.message}`, {
+      cause: e,
+    });
+  }
+
+  // Validate token format version
+  const minTokenVersion = options?.minTokenVersion ?? 0;
+  if (tokenVersion < minTokenVersion) {
+    throw new TokenVersionError(
+      `Auth token version ${tokenVersion} is below the minimum accepted version ${minTokenVersion}.`,
+      { details: { version: tokenVersion, minVersion: minTokenVersion } },
+    );
   }
 
   const {
     accountId,
-    publicKey,
-    signature: signatureB64,
     message: messageString,
     nonce: nonceFromAuthData, // nonce from NearAuthData as number[]
     recipient: recipientFromAuthData,
-    callbackUrl,
     state,
   } = authData;
 
@@ -80,73 +186,269 @@ export async function verify(
   // Validate nonce
   if (options?.validateNonce) {
     // For custom validation, pass the nonce as the original type
-    if (!options.validateNonce(nonce)) {
-      throw new Error("Custom nonce validation failed.");
+    if (!(await options.validateNonce(nonce, authData))) {
+      throw new NonceValidationError(
+        "NONCE_INVALID",
+        "Custom nonce validation failed.",
+      );
     }
   } else {
     // Standard nonce validation using nonce from AuthData (which was part of the signed payload)
     try {
       validateNonce(nonce, options?.nonceMaxAge);
     } catch (error) {
-      throw new Error(
+      throw new NonceValidationError(
+        error instanceof NonceValidationError ? error.code : "NONCE_INVALID",
         `Nonce validation failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+        {
+          details: error instanceof NearAuthError ? error.details : {},
+          cause: error,
+        },
+      );
+    }
+  }
+
+  // Validate the validity period, which must be covered by the signature
+  if (!validity && hasBoundValidity(nonce)) {
+    throw new ClaimValidationError(
+      "VALIDITY_MISMATCH",
+      "Validity verification failed: the signed nonce is bound to a validity period the token does not carry.",
+    );
+  }
+  if (validity) {
+    if (!isValidityBoundToNonce(nonce, validity, state)) {
+      throw new ClaimValidationError(
+        "VALIDITY_MISMATCH",
+        "Validity verification failed: expiresAt and notBefore are not bound to the signed nonce.",
+        { details: { ...validity } },
+      );
+    }
+    const now = Date.now();
+    if (validity.expiresAt !== undefined && now >= validity.expiresAt) {
+      throw new ClaimValidationError(
+        "TOKEN_EXPIRED",
+        "Validity verification failed: token has expired.",
+        { details: { expiresAt: validity.expiresAt } },
       );
     }
+    if (validity.notBefore !== undefined && now < validity.notBefore) {
+      throw new ClaimValidationError(
+        "TOKEN_NOT_YET_VALID",
+        "Validity verification failed: token is not valid yet.",
+        { details: { notBefore: validity.notBefore } },
+      );
+    }
+  }
+
+  // Validate server challenge
+  if (options?.challengeSecret !== undefined) {
+    verifyChallenge(
+      { nonce, state, recipient: recipientFromAuthData },
+      options.challengeSecret,
+    );
+  }
+
+  // Validate that the state was covered by the signature (a bound validity covers it too)
+  if (
+    state &&
+    !validity &&
+    options?.challengeSecret === undefined &&
+    !options?.allowUnboundState &&
+    !isStateBoundToNonce(nonce, state)
+  ) {
+    throw new ClaimValidationError(
+      "STATE_MISMATCH",
+      "State binding verification failed: state is not bound to the signed nonce.",
+      { details: { actual: state } },
+    );
   }
 
   // Validate recipient
   if (options?.validateRecipient) {
-    if (!options.validateRecipient(recipientFromAuthData)) {
-      throw new Error("Custom recipient validation failed.");
+    if (!(await options.validateRecipient(recipientFromAuthData, authData))) {
+      throw new ClaimValidationError(
+        "RECIPIENT_MISMATCH",
+        "Custom recipient validation failed.",
+        { details: { recipient: recipientFromAuthData } },
+      );
     }
   } else if (options && typeof options.expectedRecipient === "string") {
     if (recipientFromAuthData !== options.expectedRecipient) {
-      throw new Error(
+      throw new ClaimValidationError(
+        "RECIPIENT_MISMATCH",
         `Recipient mismatch: expected '${options.expectedRecipient}', but recipient is '${recipientFromAuthData}'.`,
+        {
+          details: {
+            expected: options.expectedRecipient,
+            actual: recipientFromAuthData,
+          },
+        },
       );
     }
   }
 
   // Validate state
   if (options?.validateState) {
-    if (!options.validateState(state!)) {
-      throw new Error("Custom state validation failed.");
+    if (!(await options.validateState(state!, authData))) {
+      throw new ClaimValidationError(
+        "STATE_MISMATCH",
+        "Custom state validation failed.",
+      );
     }
   } else if (options && typeof options.expectedState === "string") {
     if (state !== options.expectedState) {
-      throw new Error(
+      throw new ClaimValidationError(
+        "STATE_MISMATCH",
         `State mismatch: expected '${options.expectedState}', got '${state?.toString() || "undefined"}'.`,
+        { details: { expected: options.expectedState, actual: state } },
       );
     }
   }
 
   // Validate message
   if (options?.validateMessage) {
-    if (!options.validateMessage(messageString)) {
-      throw new Error("Custom message validation failed.");
+    if (!(await options.validateMessage(messageString, authData))) {
+      throw new ClaimValidationError(
+        "MESSAGE_MISMATCH",
+        "Custom message validation failed.",
+      );
     }
   } else if (options && typeof options.expectedMessage === "string") {
     if (messageString !== options.expectedMessage) {
-      throw new Error(
+      throw new ClaimValidationError(
+        "MESSAGE_MISMATCH",
         `Message mismatch: expected '${options.expectedMessage}', got '${messageString}'.`,
+        {
+          details: { expected: options.expectedMessage, actual: messageString },
+        },
       );
     }
   }
 
+  // Validate network
+  const network = resolveNetwork(options?.network, accountId);
+  if (
+    options?.network !== undefined &&
+    (options.accountNetworkPolicy ?? "reject") === "reject" &&
+    !isAccountOnNetwork(accountId, network)
+  ) {
+    throw new ClaimValidationError(
+      "ACCOUNT_NETWORK_MISMATCH",
+      `Account network mismatch: '${accountId}' does not belong to network '${network.networkId}'.`,
+      { details: { accountId, networkId: network.networkId } },
+    );
+  }
+
+  // Validate Sign-In With NEAR message. Without `options.network` the network is only
+  // guessed from the account name, which says nothing about implicit accounts.
+  const signIn = options?.signIn
+    ? validateSignInMessage(messageString, {
+        ...options.signIn,
+        accountId,
+        networkId:
+          options.network !== undefined ? network.networkId : undefined,
+      })
+    : undefined;
+
+  return { authData, tokenVersion, validity, nonce, network, signIn };
+}
+
+/**
+ * Verifies that the token's public key belongs to its account.
+ * Throws a KeyOwnershipError or OwnershipLookupError if it does not or cannot be determined.
+ */
+export async function verifyOwnership(
+  { authData, network }: VerifiedClaims,
+  options: VerifyOptions | undefined,
+  keyResolverFor: (network: NetworkConfig) => KeyResolver,
+): Promise<{
+  permission: AccessKeyPermission;
+  source: "implicit" | "cache" | "resolver";
+}> {
+  const { accountId, publicKey } = authData;
+
   // Validate publicKey
   const requireFullAccessKey = options?.requireFullAccessKey ?? true;
-  const ownerCheckResult = await verifyPublicKeyOwner(
-    accountId,
-    publicKey,
-    requireFullAccessKey,
-  );
+  const implicitAccountOwnership = options?.implicitAccountOwnership ?? "allow";
+  let ownerCheckResult: Awaited<ReturnType<typeof verifyPublicKeyOwner>>;
+  if (
+    implicitAccountOwnership !== "forbid" &&
+    isImplicitAccountKey(accountId, publicKey)
+  ) {
+    // The implicit account ID is the public key itself, no lookup needed.
+    ownerCheckResult = {
+      success: true,
+      permission: { type: "FullAccess" },
+      source: "implicit",
+    };
+  } else if (implicitAccountOwnership === "require") {
+    throw new KeyOwnershipError(
+      "KEY_NOT_OWNED",
+      `Implicit account verification failed: '${accountId}' is not the implicit account of public key '${publicKey}'.`,
+      { details: { accountId, publicKey } },
+    );
+  } else {
+    const keyResolver = keyResolverFor(network);
+    ownerCheckResult = await verifyPublicKeyOwner(
+      keyResolver,
+      accountId,
+      publicKey,
+      requireFullAccessKey,
+      options?.ownershipCache && {
+        cache: options.ownershipCache,
+        key: ownershipCacheKey(
+          network.networkId,
+          accountId,
+          publicKey,
+          requireFullAccessKey,
+        ),
+      },
+    );
+  }
 
   if (!ownerCheckResult.success) {
-    const reason = ownerCheckResult.apiFailure
-      ? "API error or unexpected response"
-      : "public key not associated with the account or does not meet access key requirements";
-    throw new Error(`Public key ownership verification failed: ${reason}.`);
+    if (ownerCheckResult.apiFailure) {
+      throw new OwnershipLookupError(
+        "Public key ownership verification failed: API error or unexpected response.",
+        {
+          details: { accountId, publicKey, networkId: network.networkId },
+          cause: ownerCheckResult.error,
+        },
+      );
+    }
+    throw new KeyOwnershipError(
+      "KEY_NOT_OWNED",
+      "Public key ownership verification failed: public key not associated with the account or does not meet access key requirements.",
+      { details: { accountId, publicKey, requireFullAccessKey } },
+    );
   }
+  const keyPermission = ownerCheckResult.permission!;
+  if (keyPermission.type === "FunctionCall") {
+    verifyFunctionCallPermission(
+      keyPermission,
+      authData.recipient,
+      options?.requiredMethodNames,
+    );
+  }
+
+  return { permission: keyPermission, source: ownerCheckResult.source! };
+}
+
+/**
+ * Verifies the token's NEP-413 signature.
+ * Throws a SignatureVerificationError if it is invalid.
+ */
+export async function verifyTokenSignature({
+  authData,
+  nonce,
+}: VerifiedClaims): Promise<void> {
+  const {
+    publicKey,
+    signature: signatureB64,
+    message: messageString,
+    recipient: recipientFromAuthData,
+    callbackUrl,
+  } = authData;
 
   // Reconstruct the payload that was originally signed
   const nep413PayloadToVerify: SignedPayload = {
@@ -159,24 +461,109 @@ export async function verify(
   const dataThatWasHashed = createNEP413Payload(nep413PayloadToVerify);
 
   const payloadHash = hashPayload(dataThatWasHashed);
-  const signatureBytes = base64.decode(signatureB64);
 
   try {
+    const signatureBytes = base64.decode(signatureB64);
     // TODO: remove await, update tests
     await verifySignature(payloadHash, signatureBytes, publicKey);
   } catch (error) {
-    throw new Error(
+    throw new SignatureVerificationError(
+      error instanceof SignatureVerificationError
+        ? error.code
+        : "SIGNATURE_INVALID",
       `Cryptographic signature verification failed: ${
         error instanceof Error ? error.message : String(error)
       }`,
+      { details: { publicKey }, cause: error },
     );
   }
+}
+
+/**
+ * Consumes the token's nonce in `options.nonceStore`, if configured.
+ * Throws a NonceValidationError if the nonce was already used.
+ */
+export async function consumeNonce(
+  { authData, nonce }: VerifiedClaims,
+  options?: VerifyOptions,
+): Promise<void> {
+  const { accountId } = authData;
+
+  // Replay protection, last so that rejected tokens do not consume their nonce
+  if (options?.nonceStore) {
+    const expiresAt = Date.now() + (options.nonceMaxAge ?? DEFAULT_MAX_AGE);
+    let unseen: boolean;
+    try {
+      unseen = await options.nonceStore.consume(accountId, nonce, expiresAt);
+    } catch (error) {
+      throw new NearAuthError(
+        "NONCE_STORE_UNAVAILABLE",
+        `Nonce store unavailable: ${error instanceof Error ? error.message : String(error)}`,
+        { cause: error },
+      );
+    }
+    if (!unseen) {
+      throw new NonceValidationError(
+        "NONCE_REPLAYED",
+        "Nonce validation failed: Nonce has already been used",
+        { details: { accountId } },
+      );
+    }
+  }
+}
 
+/**
+ * Builds the VerificationResult of a fully verified token.
+ */
+export function toVerificationResult(
+  { authData, tokenVersion, validity, network, signIn }: VerifiedClaims,
+  ownership: Awaited<ReturnType<typeof verifyOwnership>>,
+): VerificationResult {
+  const { accountId, publicKey, message, recipient, callbackUrl, state } =
+    authData;
   return {
     accountId: accountId,
-    message: messageString,
+    message: message,
+    recipient: recipient,
     publicKey: publicKey,
+    networkId: network.networkId,
+    keyPermission: ownership.permission,
+    ownershipSource: ownership.source,
     callbackUrl: callbackUrl || undefined,
     state: state || undefined,
+    tokenVersion: tokenVersion,
+    ...(validity?.expiresAt !== undefined
+      ? { expiresAt: validity.expiresAt }
+      : {}),
+    ...(validity?.notBefore !== undefined
+      ? { notBefore: validity.notBefore }
+      : {}),
+    ...(signIn ? { signIn } : {}),
   };
 }
+
+/**
+ * Verifies a NEAR authentication token string.
+ * This includes parsing the token, validating the message structure,
+ * checking nonce, the cryptographic signature, and public key ownership.
+ * Throws a NearAuthError (see `code`) if verification fails at any step.
+ * @param authTokenString The Base64 encoded, Borsh-serialized NearAuthData string.
+ * @param options Optional verification parameters.
+ * @returns A promise that resolves to VerificationResult if successful.
+ */
+export async function verify(
+  authTokenString: string,
+  options?: VerifyOptions,
+): Promise<VerificationResult> {
+  checkNetworkOptions(options);
+  const claims = await verifyClaims(authTokenString, options);
+  // Signature first, so that only correctly signed tokens reach the resolver and cache
+  await verifyTokenSignature(claims);
+  const ownership = await verifyOwnership(
+    claims,
+    options,
+    (network) => options?.keyResolver ?? createNetworkKeyResolver(network),
+  );
+  await consumeNonce(claims, options);
+  return toVerificationResult(claims, ownership);
+}
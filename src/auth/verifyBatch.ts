@@ -0,0 +1,173 @@
+import {
+  checkNetworkOptions,
+  createNetworkKeyResolver,
+} from "../ownership/network.js";
+import type {
+  AccessKeyPermission,
+  KeyResolver,
+  NetworkConfig,
+  SafeVerifyResult,
+  VerifyBatchOptions,
+} from "../types.js";
+import { toVerifyFailure } from "./safeVerify.js";
+import {
+  consumeNonce,
+  toVerificationResult,
+  verifyClaims,
+  verifyOwnership,
+  verifyTokenSignature,
+  type VerifiedClaims,
+} from "./verify.js";
+
+const DEFAULT_BATCH_CONCURRENCY = 8;
+
+/**
+ * Create a function that runs at most `concurrency` tasks at a time.
+ */
+function createLimiter(concurrency: number) {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  return async function limit<T>(task: () => Promise<T>): Promise<T> {
+    if (active < concurrency) {
+      active++;
+    } else {
+      // The finishing task hands its slot over directly.
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    }
+    try {
+      return await task();
+    } finally {
+      const next = waiting.shift();
+      if (next) next();
+      else active--;
+    }
+  };
+}
+
+/**
+ * Wrap a KeyResolver so that each (accountId, publicKey) pair is looked up at most once,
+ * failures included, with at most `limit`'s concurrency.
+ */
+function createBatchKeyResolver(
+  resolver: KeyResolver,
+  limit: ReturnType<typeof createLimiter>,
+): KeyResolver {
+  const lookups = new Map<string, Promise<AccessKeyPermission | null>>();
+
+  return {
+    resolveAccessKey(accountId, publicKey, context) {
+      const key = `${context.requireFullAccessKey ? "full" : "any"}:${accountId}:${publicKey}`;
+      let lookup = lookups.get(key);
+      if (!lookup) {
+        lookup = limit(() =>
+          resolver.resolveAccessKey(accountId, publicKey, context),
+        );
+        lookups.set(key, lookup);
+      }
+      return lookup;
+    },
+  };
+}
+
+/**
+ * Verifies many NEAR authentication tokens at once, without throwing.
+ * Performs the same checks as `verify`, but in stages across the whole batch:
+ * claims first, then every signature, then key ownership for the tokens left.
+ * Ownership lookups are made once per (accountId, publicKey) and run at most
+ * `concurrency` at a time. Nonces are consumed in token order, so of two tokens
+ * with the same nonce only the first is accepted.
+ * A token failing several checks may report a different reason than `verify` would.
+ * @param authTokenStrings The tokens to verify.
+ * @param options Verification parameters applied to every token, plus `concurrency`.
+ * @returns One SafeVerifyResult per token, in the same order.
+ * @throws Error if `concurrency` is invalid, NearAuthError with code CONFIGURATION_INVALID if `network` is
+ */
+export async function verifyBatch(
+  authTokenStrings: string[],
+  options?: VerifyBatchOptions,
+): Promise<SafeVerifyResult[]> {
+  const concurrency = options?.concurrency ?? DEFAULT_BATCH_CONCURRENCY;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(
+      `Invalid concurrency: expected a positive integer, got ${concurrency}.`,
+    );
+  }
+  checkNetworkOptions(options);
+
+  const results = new Array<SafeVerifyResult>(authTokenStrings.length);
+  const claimsLimit = createLimiter(concurrency);
+  const lookupLimit = createLimiter(concurrency);
+
+  // Claims, which may call async custom validators
+  let remaining = new Map<number, VerifiedClaims>();
+  await Promise.all(
+    authTokenStrings.map((token, index) =>
+      claimsLimit(async () => {
+        try {
+          remaining.set(index, await verifyClaims(token, options));
+        } catch (error) {
+          results[index] = toVerifyFailure(error);
+        }
+      }),
+    ),
+  );
+
+  // Signatures, before any network lookups are made for the batch
+  for (const [index, claims] of [...remaining]) {
+    try {
+      await verifyTokenSignature(claims);
+    } catch (error) {
+      results[index] = toVerifyFailure(error);
+      remaining.delete(index);
+    }
+  }
+
+  // Key ownership, de-duplicated per network
+  const keyResolvers = new Map<string, KeyResolver>();
+  const keyResolverFor = (network: NetworkConfig) => {
+    let keyResolver = keyResolvers.get(network.networkId);
+    if (!keyResolver) {
+      keyResolver = createBatchKeyResolver(
+        options?.keyResolver ?? createNetworkKeyResolver(network),
+        lookupLimit,
+      );
+      keyResolvers.set(network.networkId, keyResolver);
+    }
+    return keyResolver;
+  };
+  const ownerships = new Map<
+    number,
+    Awaited<ReturnType<typeof verifyOwnership>>
+  >();
+  await Promise.all(
+    [...remaining].map(async ([index, claims]) => {
+      try {
+        ownerships.set(
+          index,
+          await verifyOwnership(claims, options, keyResolverFor),
+        );
+      } catch (error) {
+        results[index] = toVerifyFailure(error);
+      }
+    }),
+  );
+  remaining = new Map(
+    [...remaining].filter(([index]) => ownerships.has(index)),
+  );
+
+  // Replay protection, in token order
+  for (const [index, claims] of [...remaining].sort(([a], [b]) => a - b)) {
+    try {
+      await consumeNonce(claims, options);
+      results[index] = {
+        ok: true,
+        result: toVerificationResult(claims, ownerships.get(index)!),
+      };
+    } catch (error) {
+      results[index] = toVerifyFailure(error);
+    }
+  }
+
+  return results;
+}
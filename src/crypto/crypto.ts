@@ -2,12 +2,22 @@ import { ed25519 } from "@noble/curves/ed25519.js";
 import { sha256 } from "@noble/hashes/sha2.js";
 import { base58 } from "@scure/base";
 import { b } from "@zorsh/zorsh";
+import { SignatureVerificationError } from "../errors.js";
 import { SignedPayloadSchema } from "../schemas.js";
 import type { SignedPayload } from "../types.js";
 
 export const ED25519_PREFIX = "ed25519:";
+export const SECP256K1_PREFIX = "secp256k1:";
 export const TAG = 2147484061;
 
+/**
+ * Load the secp256k1 curve on first use, so that it stays out of the main bundle
+ * and is only loaded when a secp256k1 key is seen.
+ */
+export async function loadSecp256k1() {
+  return (await import("./secp256k1.js")).secp256k1;
+}
+
 /**
  * Create a NEP-413 payload to be hashed
  * (Serialize the TAG and the payload separately, then concatenate)
@@ -46,9 +56,11 @@ export function hashPayload(payload: Uint8Array): Uint8Array {
 /**
  * Verify a signature against a pre-computed payload hash.
  * Throws an error if verification fails or encounters an issue.
+ * Secp256k1 signatures are 65 bytes (r || s || recovery id), as used by nearcore;
+ * secp256k1 public keys are the 64-byte uncompressed point without the 0x04 header.
  * @param payloadHash The hash of the payload that was signed.
  * @param signatureBytes The raw signature bytes to verify.
- * @param publicKeyString The public key string (e.g., "ed25519:...") to verify against.
+ * @param publicKeyString The public key string (e.g., "ed25519:..." or "secp256k1:...") to verify against.
  */
 export async function verifySignature( // remove async, update tests
   payloadHash: Uint8Array,
@@ -62,12 +74,53 @@ export async function verifySignature( // remove async, update tests
       base58.decode(publicKeyString.split(":")[1]),
     );
     if (!isValid) {
-      throw new Error("Ed25519 signature verification failed.");
+      throw new SignatureVerificationError(
+        "SIGNATURE_INVALID",
+        "Ed25519 signature verification failed.",
+      );
+    }
+    return true;
+  }
+
+  if (publicKeyString.startsWith(SECP256K1_PREFIX)) {
+    const publicKeyBytes = base58.decode(
+      publicKeyString.substring(SECP256K1_PREFIX.length),
+    );
+    if (publicKeyBytes.length !== 64) {
+      throw new SignatureVerificationError(
+        "SIGNATURE_INVALID",
+        `Expected a 64-byte secp256k1 public key, got ${publicKeyBytes.length} bytes.`,
+      );
+    }
+    if (signatureBytes.length !== 65) {
+      throw new SignatureVerificationError(
+        "SIGNATURE_INVALID",
+        `Expected a 65-byte secp256k1 signature, got ${signatureBytes.length} bytes.`,
+      );
+    }
+    const uncompressedPublicKey = new Uint8Array(65);
+    uncompressedPublicKey[0] = 0x04;
+    uncompressedPublicKey.set(publicKeyBytes, 1);
+    const secp256k1 = await loadSecp256k1();
+    // The payload hash is signed as-is; the recovery id is not needed to verify.
+    const isValid = secp256k1.verify(
+      signatureBytes.subarray(0, 64),
+      payloadHash,
+      uncompressedPublicKey,
+      { prehash: false },
+    );
+    if (!isValid) {
+      throw new SignatureVerificationError(
+        "SIGNATURE_INVALID",
+        "Secp256k1 signature verification failed.",
+      );
     }
     return true;
   }
 
-  throw new Error(
-    `Unsupported public key type: "${publicKeyString}". Must start with "${ED25519_PREFIX}".`,
+  throw new SignatureVerificationError(
+    "UNSUPPORTED_KEY_TYPE",
+    `Unsupported public key type: "${publicKeyString}". Must start with "${ED25519_PREFIX}" or "${SECP256K1_PREFIX}".`,
+    { details: { publicKey: publicKeyString } },
   );
 }
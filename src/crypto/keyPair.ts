@@ -0,0 +1,110 @@
+import { ed25519 } from "@noble/curves/ed25519.js";
+import { base58 } from "@scure/base";
+import { ED25519_PREFIX, loadSecp256k1, SECP256K1_PREFIX } from "./crypto.js";
+
+/**
+ * Check whether a value is a NEAR KeyPair string ("ed25519:..." or "secp256k1:...").
+ */
+export function isKeyPairString(value: unknown): value is string {
+  return (
+    typeof value === "string" &&
+    (value.startsWith(ED25519_PREFIX) || value.startsWith(SECP256K1_PREFIX))
+  );
+}
+
+type DecodedKeyPair =
+  | { type: "ed25519"; secretKey: Uint8Array }
+  | { type: "secp256k1"; secretKey: Uint8Array };
+
+/**
+ * Decode a KeyPair string, checking its prefix and length.
+ * @throws Error if the KeyPair is invalid
+ */
+export function decodeKeyPair(keyPair: string): DecodedKeyPair {
+  if (keyPair.startsWith(ED25519_PREFIX)) {
+    const privateKeyBytes = base58.decode(
+      keyPair.substring(ED25519_PREFIX.length),
+    );
+    if (privateKeyBytes.length !== 64) {
+      throw new Error(
+        `Expected decoded private key to be 64 bytes for Ed25519, got ${privateKeyBytes.length}`,
+      );
+    }
+    return { type: "ed25519", secretKey: privateKeyBytes.slice(0, 32) }; // Extract the 32-byte seed
+  }
+
+  if (keyPair.startsWith(SECP256K1_PREFIX)) {
+    const privateKeyBytes = base58.decode(
+      keyPair.substring(SECP256K1_PREFIX.length),
+    );
+    if (privateKeyBytes.length !== 32 && privateKeyBytes.length !== 96) {
+      throw new Error(
+        `Expected decoded private key to be 32 or 96 bytes for Secp256k1, got ${privateKeyBytes.length}`,
+      );
+    }
+    return { type: "secp256k1", secretKey: privateKeyBytes.slice(0, 32) };
+  }
+
+  throw new Error(
+    `Invalid KeyPair format: must start with "${ED25519_PREFIX}" or "${SECP256K1_PREFIX}".`,
+  );
+}
+
+async function publicKeyOf({
+  type,
+  secretKey,
+}: DecodedKeyPair): Promise<string> {
+  if (type === "ed25519") {
+    return ED25519_PREFIX + base58.encode(ed25519.getPublicKey(secretKey));
+  }
+  const secp256k1 = await loadSecp256k1();
+  // Drop the 0x04 header of the uncompressed point.
+  return (
+    SECP256K1_PREFIX +
+    base58.encode(secp256k1.getPublicKey(secretKey, false).slice(1))
+  );
+}
+
+/**
+ * Get the NEAR public key string of a KeyPair string.
+ * @param keyPair The KeyPair string.
+ * @returns The public key string (e.g., "ed25519:...").
+ */
+export async function getKeyPairPublicKey(keyPair: string): Promise<string> {
+  return publicKeyOf(decodeKeyPair(keyPair));
+}
+
+/**
+ * Sign a payload hash with a NEAR KeyPair string.
+ * - "ed25519:<base58>": a 64-byte secret key (seed followed by public key), as in near-api-js.
+ * - "secp256k1:<base58>": a 32-byte secret key, optionally followed by the 64-byte public key.
+ *   The hash is signed as-is and the signature is r || s || recovery id (65 bytes).
+ * @param keyPair The KeyPair string.
+ * @param payloadHash The hash to sign.
+ * @returns The raw signature and the NEAR public key string.
+ */
+export async function signWithKeyPair(
+  keyPair: string,
+  payloadHash: Uint8Array,
+): Promise<{ signature: Uint8Array; publicKey: string }> {
+  const decoded = decodeKeyPair(keyPair);
+
+  if (decoded.type === "ed25519") {
+    return {
+      signature: ed25519.sign(payloadHash, decoded.secretKey),
+      publicKey: await publicKeyOf(decoded),
+    };
+  }
+
+  const secp256k1 = await loadSecp256k1();
+  // noble's "recovered" format puts the recovery id first; nearcore expects it last.
+  const recovered = secp256k1.sign(payloadHash, decoded.secretKey, {
+    prehash: false,
+    format: "recovered",
+  });
+  const signature = new Uint8Array(65);
+  signature.set(recovered.subarray(1), 0);
+  signature[64] = recovered[0];
+
+  return { signature, publicKey: await publicKeyOf(decoded) };
+}
@@ -0,0 +1,2 @@
+// Only loaded through `loadSecp256k1`, so that the curve is not part of the main bundle.
+export { secp256k1 } from "@noble/curves/secp256k1.js";
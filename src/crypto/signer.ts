@@ -0,0 +1,108 @@
+import { base58 } from "@scure/base";
+import type { Signer } from "../types.js";
+import { ED25519_PREFIX } from "./crypto.js";
+import {
+  decodeKeyPair,
+  getKeyPairPublicKey,
+  signWithKeyPair,
+} from "./keyPair.js";
+
+/**
+ * Check whether a value implements the Signer interface.
+ */
+export function isSigner(value: unknown): value is Signer {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as Signer).getPublicKey === "function" &&
+    typeof (value as Signer).signBytes === "function"
+  );
+}
+
+/**
+ * Create a Signer backed by a KeyPair string held in memory.
+ * This is the reference implementation of `Signer`, e.g. to stand in for a KMS in tests.
+ * @param keyPair An "ed25519:..." or "secp256k1:..." KeyPair string.
+ * @param accountId Optional account the key belongs to.
+ * @returns A Signer.
+ */
+export function createKeyPairSigner(
+  keyPair: string,
+  accountId?: string,
+): Signer {
+  // Validate the KeyPair up front; the public key is derived once, on first use.
+  decodeKeyPair(keyPair);
+  let publicKey: Promise<string> | undefined;
+
+  return {
+    accountId,
+    getPublicKey() {
+      publicKey ??= getKeyPairPublicKey(keyPair);
+      return publicKey;
+    },
+    async signBytes(hash) {
+      return (await signWithKeyPair(keyPair, hash)).signature;
+    },
+  };
+}
+
+/**
+ * Check whether a value is a WebCrypto CryptoKeyPair.
+ */
+export function isCryptoKeyPair(value: unknown): value is CryptoKeyPair {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const { privateKey, publicKey } = value as Partial<CryptoKeyPair>;
+  return (
+    typeof privateKey === "object" &&
+    privateKey !== null &&
+    privateKey.type === "private" &&
+    typeof publicKey === "object" &&
+    publicKey !== null &&
+    publicKey.type === "public"
+  );
+}
+
+/**
+ * Create a Signer backed by a WebCrypto Ed25519 CryptoKeyPair.
+ * The private key may be non-extractable (e.g., a session key stored in IndexedDB);
+ * only the public key is exported, to derive the NEAR public key string.
+ * @param keyPair An Ed25519 CryptoKeyPair, e.g. from `crypto.subtle.generateKey({ name: "Ed25519" }, false, ["sign"])`.
+ * @param accountId Optional account the key belongs to.
+ * @returns A Signer.
+ */
+export function createWebCryptoSigner(
+  keyPair: CryptoKeyPair,
+  accountId?: string,
+): Signer {
+  if (
+    keyPair.privateKey.algorithm.name !== "Ed25519" ||
+    keyPair.publicKey.algorithm.name !== "Ed25519"
+  ) {
+    throw new Error(
+      `Unsupported CryptoKeyPair algorithm: "${keyPair.privateKey.algorithm.name}". Must be "Ed25519".`,
+    );
+  }
+
+  let publicKey: Promise<string> | undefined;
+
+  return {
+    accountId,
+    getPublicKey() {
+      publicKey ??= crypto.subtle
+        .exportKey("raw", keyPair.publicKey)
+        .then((raw) => ED25519_PREFIX + base58.encode(new Uint8Array(raw)));
+      return publicKey;
+    },
+    async signBytes(hash) {
+      return new Uint8Array(
+        await crypto.subtle.sign(
+          "Ed25519",
+          keyPair.privateKey,
+          new Uint8Array(hash),
+        ),
+      );
+    },
+  };
+}
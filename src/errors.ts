@@ -0,0 +1,172 @@
+/**
+ * Stable, machine-readable codes for authentication failures.
+ */
+export type NearAuthErrorCode =
+  | "TOKEN_MALFORMED"
+  | "TOKEN_VERSION_UNSUPPORTED"
+  | "NONCE_INVALID"
+  | "NONCE_EXPIRED"
+  | "NONCE_IN_FUTURE"
+  | "NONCE_REPLAYED"
+  | "NONCE_STORE_UNAVAILABLE"
+  | "CHALLENGE_INVALID"
+  | "CHALLENGE_EXPIRED"
+  | "RECIPIENT_MISMATCH"
+  | "STATE_MISMATCH"
+  | "MESSAGE_MISMATCH"
+  | "ACCOUNT_NETWORK_MISMATCH"
+  | "VALIDITY_MISMATCH"
+  | "TOKEN_EXPIRED"
+  | "TOKEN_NOT_YET_VALID"
+  | "KEY_NOT_OWNED"
+  | "KEY_PERMISSION_DENIED"
+  | "OWNERSHIP_LOOKUP_UNAVAILABLE"
+  | "SIGNATURE_INVALID"
+  | "UNSUPPORTED_KEY_TYPE"
+  | "SESSION_INVALID"
+  | "SESSION_EXPIRED"
+  | "SESSION_REFRESH_REUSED"
+  | "CONFIGURATION_INVALID"
+  | "UNEXPECTED_ERROR";
+
+/**
+ * Optional structured details and underlying cause of a NearAuthError.
+ */
+export interface NearAuthErrorOptions {
+  details?: Record<string, unknown>;
+  cause?: unknown;
+}
+
+/**
+ * Base class for all errors thrown by `verify`, `parseAuthToken` and `verifySession`.
+ * Branch on `code` rather than on `message`, which may change.
+ */
+export class NearAuthError extends Error {
+  /** Stable error code. */
+  readonly code: NearAuthErrorCode;
+  /** Structured details about the failure (e.g., expected and actual values). */
+  readonly details: Record<string, unknown>;
+
+  constructor(
+    code: NearAuthErrorCode,
+    message: string,
+    options: NearAuthErrorOptions = {},
+  ) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.code = code;
+    this.details = options.details ?? {};
+  }
+}
+
+/** The auth token could not be decoded. */
+export class TokenMalformedError extends NearAuthError {
+  declare readonly code: "TOKEN_MALFORMED";
+
+  constructor(message: string, options?: NearAuthErrorOptions) {
+    super("TOKEN_MALFORMED", message, options);
+  }
+}
+
+/** The auth token's format version is unknown, or older than the minimum accepted version. */
+export class TokenVersionError extends NearAuthError {
+  declare readonly code: "TOKEN_VERSION_UNSUPPORTED";
+
+  constructor(message: string, options?: NearAuthErrorOptions) {
+    super("TOKEN_VERSION_UNSUPPORTED", message, options);
+  }
+}
+
+/** The nonce is malformed, expired, from the future, already used, or rejected by a custom validator. */
+export class NonceValidationError extends NearAuthError {
+  declare readonly code:
+    | "NONCE_INVALID"
+    | "NONCE_EXPIRED"
+    | "NONCE_IN_FUTURE"
+    | "NONCE_REPLAYED";
+
+  constructor(
+    code: NonceValidationError["code"],
+    message: string,
+    options?: NearAuthErrorOptions,
+  ) {
+    super(code, message, options);
+  }
+}
+
+/** A token field (challenge, recipient, state, message, account network, validity period) failed validation. */
+export class ClaimValidationError extends NearAuthError {
+  declare readonly code:
+    | "CHALLENGE_INVALID"
+    | "CHALLENGE_EXPIRED"
+    | "RECIPIENT_MISMATCH"
+    | "STATE_MISMATCH"
+    | "MESSAGE_MISMATCH"
+    | "ACCOUNT_NETWORK_MISMATCH"
+    | "VALIDITY_MISMATCH"
+    | "TOKEN_EXPIRED"
+    | "TOKEN_NOT_YET_VALID";
+
+  constructor(
+    code: ClaimValidationError["code"],
+    message: string,
+    options?: NearAuthErrorOptions,
+  ) {
+    super(code, message, options);
+  }
+}
+
+/** The public key does not belong to the account, or its permission is insufficient. */
+export class KeyOwnershipError extends NearAuthError {
+  declare readonly code: "KEY_NOT_OWNED" | "KEY_PERMISSION_DENIED";
+
+  constructor(
+    code: KeyOwnershipError["code"],
+    message: string,
+    options?: NearAuthErrorOptions,
+  ) {
+    super(code, message, options);
+  }
+}
+
+/**
+ * Key ownership could not be determined because the lookup failed
+ * (e.g., the indexer or RPC is unreachable). This is an infrastructure failure,
+ * not an authentication failure.
+ */
+export class OwnershipLookupError extends NearAuthError {
+  declare readonly code: "OWNERSHIP_LOOKUP_UNAVAILABLE";
+
+  constructor(message: string, options?: NearAuthErrorOptions) {
+    super("OWNERSHIP_LOOKUP_UNAVAILABLE", message, options);
+  }
+}
+
+/** The cryptographic signature is invalid or uses an unsupported key type. */
+export class SignatureVerificationError extends NearAuthError {
+  declare readonly code: "SIGNATURE_INVALID" | "UNSUPPORTED_KEY_TYPE";
+
+  constructor(
+    code: SignatureVerificationError["code"],
+    message: string,
+    options?: NearAuthErrorOptions,
+  ) {
+    super(code, message, options);
+  }
+}
+
+/** A session token is malformed, not signed with the expected key, expired, or an already used refresh token. */
+export class SessionError extends NearAuthError {
+  declare readonly code:
+    | "SESSION_INVALID"
+    | "SESSION_EXPIRED"
+    | "SESSION_REFRESH_REUSED";
+
+  constructor(
+    code: SessionError["code"],
+    message: string,
+    options?: NearAuthErrorOptions,
+  ) {
+    super(code, message, options);
+  }
+}
@@ -0,0 +1,113 @@
+import { sha256 } from "@noble/hashes/sha2.js";
+import { base64urlnopad } from "@scure/base";
+import { sign } from "../auth/sign.js";
+import { verify } from "../auth/verify.js";
+import { TokenMalformedError } from "../errors.js";
+import type {
+  SignOptions,
+  VerificationResult,
+  VerifyOptions,
+} from "../types.js";
+
+/** `Omit` applied to each member of a union, so that their exclusive options stay exclusive. */
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown
+  ? Omit<T, K>
+  : never;
+
+/**
+ * Options for `verifyRequest`: the `verify` options, without message validation,
+ * which `verifyRequest` does itself.
+ */
+export type VerifyRequestOptions = DistributiveOmit<
+  VerifyOptions,
+  "expectedMessage" | "validateMessage" | "signIn"
+> & {
+  /** The token to verify. Defaults to the request's `Authorization: Bearer` token. */
+  token?: string;
+};
+
+/**
+ * Build the message binding a token to an HTTP request: its method, path,
+ * query (with parameters sorted) and the SHA-256 digest of its body.
+ * The request's body is read from a clone, so the request can still be sent or handled.
+ * ```text
+ * HTTP request
+ * Method: POST
+ * Path: /api/items
+ * Query: a=1&b=2
+ * Body SHA-256: <base64url digest>
+ * ```
+ * @param request The request, as a Fetch API Request.
+ * @returns The message to sign.
+ * @throws Error if the request's body was already read
+ */
+export async function createRequestMessage(request: Request): Promise<string> {
+  if (request.bodyUsed) {
+    throw new Error("Request body has already been read.");
+  }
+  const url = new URL(request.url);
+  const query = new URLSearchParams(url.search);
+  query.sort();
+  const body = new Uint8Array(await request.clone().arrayBuffer());
+
+  return [
+    "HTTP request",
+    `Method: ${request.method.toUpperCase()}`,
+    `Path: ${url.pathname}`,
+    `Query: ${query.toString()}`,
+    `Body SHA-256: ${base64urlnopad.encode(sha256(body))}`,
+  ].join("\n");
+}
+
+/**
+ * Sign an HTTP request, so that the token is only accepted for this exact request
+ * (see `verifyRequest`). Send the token as `Authorization: Bearer <token>`.
+ * @param request The request to sign, as a Fetch API Request.
+ * @param options The signing options, as for `sign`.
+ * @returns The auth token.
+ */
+export async function signRequest(
+  request: Request,
+  options: SignOptions,
+): Promise<string> {
+  return sign(await createRequestMessage(request), options);
+}
+
+/**
+ * Read the token of an `Authorization: Bearer <token>` header.
+ * @param request The request.
+ * @returns The token, or null if there is none.
+ */
+export function getBearerToken(request: Request): string | null {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(
+    request.headers.get("authorization") ?? "",
+  );
+  return match ? match[1] : null;
+}
+
+/**
+ * Verify a token produced by `signRequest` for this request.
+ * Performs every check of `verify`, and requires the signed message to match the
+ * request's method, path, query and body. Use a `nonceStore` so that the request
+ * cannot be replayed either.
+ * Throws a NearAuthError (see `code`) if verification fails; a token signed for
+ * another request fails with MESSAGE_MISMATCH.
+ * @param request The incoming request, as a Fetch API Request. Its body is read from a clone.
+ * @param options Verification parameters, as for `verify`.
+ * @returns The verification result.
+ */
+export async function verifyRequest(
+  request: Request,
+  options: VerifyRequestOptions = {},
+): Promise<VerificationResult> {
+  const { token = getBearerToken(request), ...verifyOptions } = options;
+  if (!token) {
+    throw new TokenMalformedError(
+      "Missing auth token: expected an Authorization: Bearer header.",
+    );
+  }
+  return verify(token, {
+    ...verifyOptions,
+    expectedMessage: await createRequestMessage(request),
+  });
+}
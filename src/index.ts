@@ -1,19 +1,134 @@
 // --- Core API Functions ---
 export { sign } from "./auth/sign.js";
 export { verify } from "./auth/verify.js";
+export { safeVerify } from "./auth/safeVerify.js";
+export { verifyBatch } from "./auth/verifyBatch.js";
+export {
+  createChallenge,
+  verifyChallenge,
+  type Challenge,
+  type CreateChallengeOptions,
+} from "./auth/challenge.js";
+
+// --- HTTP Request Binding ---
+export {
+  createRequestMessage,
+  signRequest,
+  verifyRequest,
+  type VerifyRequestOptions,
+} from "./http/request.js";
+
+// --- Server Middleware ---
+export {
+  createNearAuthMiddleware,
+  type NearAuthFailureReason,
+  type NearAuthMiddlewareOptions,
+  type NearAuthOutcome,
+  type TokenSource,
+} from "./middleware/core.js";
+export {
+  nearAuthExpress,
+  type ExpressLikeRequest,
+  type ExpressLikeResponse,
+} from "./middleware/express.js";
+export { nearAuthHono, type HonoLikeContext } from "./middleware/hono.js";
+
+// --- Sign-In With NEAR ---
+export {
+  createSignInMessage,
+  parseSignInMessage,
+  type CreateSignInMessageOptions,
+  type SignInMessage,
+} from "./siwn/message.js";
+
+// --- Sessions ---
+export {
+  issueSession,
+  refreshSession,
+  verifySession,
+  type IssueSessionOptions,
+  type RefreshSessionOptions,
+  type Session,
+  type SessionClaims,
+  type VerifySessionOptions,
+} from "./session/session.js";
+export {
+  completeRedirectSign,
+  DEFAULT_PENDING_SIGN_REQUEST_KEY,
+  loadPendingSignRequest,
+  parseCallbackFragment,
+  savePendingSignRequest,
+  type CompleteRedirectSignOptions,
+  type PendingSignRequest,
+} from "./auth/redirect.js";
 
 // --- Helper Functions ---
 export { parseAuthToken } from "./auth/parseAuthToken.js";
+export {
+  DEFAULT_TOKEN_VERSION,
+  type AuthTokenEncoding,
+  type AuthTokenVersion,
+  type TokenValidity,
+} from "./auth/tokenFormat.js";
 export { generateNonce } from "./utils/nonce.js";
+export { createMemoryNonceStore } from "./utils/nonceStore.js";
+export { bindStateToNonce, bindValidityToNonce } from "./utils/state.js";
+export { createKeyPairSigner, createWebCryptoSigner } from "./crypto/signer.js";
+
+// --- Key Ownership ---
+export {
+  createFastNearKeyResolver,
+  type FastNearKeyResolverOptions,
+} from "./ownership/fastnear.js";
+export {
+  createRpcKeyResolver,
+  type RpcKeyResolverOptions,
+} from "./ownership/rpc.js";
+export { NETWORKS } from "./ownership/network.js";
+export {
+  createMemoryOwnershipCache,
+  type MemoryOwnershipCacheOptions,
+  type OwnershipCacheStats,
+} from "./ownership/cache.js";
+
+// --- Errors ---
+export {
+  ClaimValidationError,
+  KeyOwnershipError,
+  NearAuthError,
+  NonceValidationError,
+  OwnershipLookupError,
+  SessionError,
+  SignatureVerificationError,
+  TokenMalformedError,
+  TokenVersionError,
+  type NearAuthErrorCode,
+  type NearAuthErrorOptions,
+} from "./errors.js";
 
 // --- Utility Exports ---
 export { stringToUint8Array, uint8ArrayToString } from "./utils/encoding.js";
 
 // --- Core Types ---
 export type {
+  AccessKeyInfo,
+  AccessKeyPermission,
+  KeyLookupContext,
+  KeyResolver,
   NearAuthData,
+  NetworkConfig,
+  NonceStore,
+  OwnershipCache,
+  OwnershipCacheEntry,
+  PendingSignRequestStorage,
+  SafeVerifyResult,
+  SignedMessage,
+  Signer,
+  SignMessageParams,
+  SignInVerifyOptions,
   SignOptions,
   VerificationResult,
+  VerifyBatchOptions,
   VerifyOptions,
   WalletInterface,
 } from "./types.js";
@@ -0,0 +1,196 @@
+import { safeVerify } from "../auth/safeVerify.js";
+import type { NearAuthErrorCode } from "../errors.js";
+import { checkNetworkOptions } from "../ownership/network.js";
+import type { VerificationResult, VerifyOptions } from "../types.js";
+
+/**
+ * Where to read the auth token from.
+ * - header: `Authorization: Bearer <token>` by default. With `scheme: null`, the whole header value.
+ * - cookie: the value of the named cookie.
+ * - query: the named query parameter. Use `tokenEncoding: "base64url"` when signing.
+ */
+export type TokenSource =
+  | { from: "header"; name?: string; scheme?: string | null }
+  | { from: "cookie"; name: string }
+  | { from: "query"; name: string };
+
+/**
+ * Options for `createNearAuthMiddleware`.
+ */
+export interface NearAuthMiddlewareOptions {
+  /** Options passed to `verify` for every request. */
+  verifyOptions?: VerifyOptions;
+  /** Sources to read the token from, in order; the first one present is used. Defaults to the Authorization header. */
+  tokenSources?: TokenSource[];
+  /**
+   * "required" (default): requests without a token are rejected with 401.
+   * "optional": requests without a token pass with a null result. A token that is present
+   * but invalid is still rejected.
+   */
+  mode?: "required" | "optional";
+  /**
+   * Optional authorization check on a verified token, e.g. against an allow-list.
+   * Requests for which it returns false are rejected with 403.
+   */
+  authorize?: (
+    result: VerificationResult,
+    request: Request,
+  ) => boolean | Promise<boolean>;
+}
+
+/**
+ * Why a request was rejected: a `verify` error code, no token, or `authorize` returning false.
+ */
+export type NearAuthFailureReason =
+  | NearAuthErrorCode
+  | "TOKEN_MISSING"
+  | "FORBIDDEN";
+
+/**
+ * The outcome of authenticating a request.
+ * On failure, `response` is a JSON response with the status, ready to be returned.
+ */
+export type NearAuthOutcome =
+  | {
+      ok: true;
+      /** The verification result, or null if auth is optional and there was no token. */
+      result: VerificationResult | null;
+    }
+  | {
+      ok: false;
+      /**
+       * 401 if the token is missing or invalid, 403 if it is not allowed, 503 if it could not
+       * be checked, 500 if the verify options are invalid.
+       */
+      status: 401 | 403 | 500 | 503;
+      reason: NearAuthFailureReason;
+      response: Response;
+    };
+
+/** Codes of tokens that are valid, but whose key is not allowed for the request. */
+const FORBIDDEN_ERROR_CODES: NearAuthErrorCode[] = ["KEY_PERMISSION_DENIED"];
+
+function readCookie(header: string | null, name: string): string | null {
+  for (const pair of (header ?? "").split(";")) {
+    const separator = pair.indexOf("=");
+    if (separator !== -1 && pair.substring(0, separator).trim() === name) {
+      try {
+        return decodeURIComponent(pair.substring(separator + 1).trim());
+      } catch {
+        return null;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Read the auth token of a request from the first source that has one.
+ * @param request The request.
+ * @param sources The sources to try, in order.
+ * @returns The token, or null if no source has one.
+ */
+export function extractToken(
+  request: Request,
+  sources: TokenSource[],
+): string | null {
+  for (const source of sources) {
+    let token: string | null = null;
+    if (source.from === "header") {
+      const value = request.headers.get(source.name ?? "authorization");
+      const scheme = source.scheme === undefined ? "Bearer" : source.scheme;
+      if (value && scheme === null) {
+        token = value.trim();
+      } else if (value && scheme !== null) {
+        const [valueScheme, credentials, ...rest] = value.trim().split(/\s+/);
+        if (
+          valueScheme.toLowerCase() === scheme.toLowerCase() &&
+          !rest.length
+        ) {
+          token = credentials ?? null;
+        }
+      }
+    } else if (source.from === "cookie") {
+      token = readCookie(request.headers.get("cookie"), source.name);
+    } else {
+      // URLSearchParams decodes a literal "+" of a standard base64 token as a space.
+      token =
+        new URL(request.url).searchParams
+          .get(source.name)
+          ?.replace(/ /g, "+") ?? null;
+    }
+    if (token) {
+      return token;
+    }
+  }
+  return null;
+}
+
+function reject(
+  status: 401 | 403 | 500 | 503,
+  reason: NearAuthFailureReason,
+): NearAuthOutcome {
+  const headers: Record<string, string> = {
+    "content-type": "application/json",
+  };
+  if (status === 401) {
+    headers["www-authenticate"] =
+      reason === "TOKEN_MISSING" ? "Bearer" : 'Bearer error="invalid_token"';
+  }
+  return {
+    ok: false,
+    status,
+    reason,
+    response: new Response(JSON.stringify({ error: reason }), {
+      status,
+      headers,
+    }),
+  };
+}
+
+/**
+ * Create a framework-agnostic middleware that authenticates Fetch API requests:
+ * it reads the token, verifies it, and maps failures to 401, 403, 500 or 503 responses.
+ * See `nearAuthExpress` and `nearAuthHono` for framework adapters.
+ * @param options Token sources, auth mode, and `verify` options.
+ * @returns A function resolving a request to its NearAuthOutcome.
+ * @throws NearAuthError with code CONFIGURATION_INVALID if `verifyOptions.network` is invalid
+ */
+export function createNearAuthMiddleware(
+  options: NearAuthMiddlewareOptions = {},
+): (request: Request) => Promise<NearAuthOutcome> {
+  checkNetworkOptions(options.verifyOptions);
+  const tokenSources = options.tokenSources ?? [{ from: "header" }];
+  const mode = options.mode ?? "required";
+
+  return async function authenticate(request) {
+    const token = extractToken(request, tokenSources);
+    if (!token) {
+      return mode === "optional"
+        ? { ok: true, result: null }
+        : reject(401, "TOKEN_MISSING");
+    }
+
+    const verified = await safeVerify(token, options.verifyOptions);
+    if (!verified.ok) {
+      if (verified.kind === "infrastructure") {
+        return reject(503, verified.reason);
+      }
+      if (verified.kind === "configuration") {
+        return reject(500, verified.reason);
+      }
+      return reject(
+        FORBIDDEN_ERROR_CODES.includes(verified.reason) ? 403 : 401,
+        verified.reason,
+      );
+    }
+
+    if (
+      options.authorize &&
+      !(await options.authorize(verified.result, request))
+    ) {
+      return reject(403, "FORBIDDEN");
+    }
+    return { ok: true, result: verified.result };
+  };
+}
@@ -0,0 +1,74 @@
+import type { VerificationResult } from "../types.js";
+import {
+  createNearAuthMiddleware,
+  type NearAuthMiddlewareOptions,
+} from "./core.js";
+
+/** The parts of an Express request the middleware uses. */
+export interface ExpressLikeRequest {
+  method: string;
+  /** The URL relative to the app, with the query string. */
+  originalUrl?: string;
+  url?: string;
+  headers: Record<string, string | string[] | undefined>;
+  /** Set by the middleware to the verification result, or null if auth is optional and there was no token. */
+  nearAuth?: VerificationResult | null;
+}
+
+/** The parts of an Express response the middleware uses. */
+export interface ExpressLikeResponse {
+  status(code: number): unknown;
+  setHeader(name: string, value: string): unknown;
+  send(body: string): unknown;
+}
+
+function toFetchRequest(req: ExpressLikeRequest): Request {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (value !== undefined) {
+      headers.set(name, Array.isArray(value) ? value.join(", ") : value);
+    }
+  }
+  const host = headers.get("host") ?? "localhost";
+  return new Request(`http://${host}${req.originalUrl ?? req.url ?? "/"}`, {
+    method: req.method,
+    headers,
+  });
+}
+
+/**
+ * Express adapter for `createNearAuthMiddleware`. Sets `req.nearAuth` to the
+ * verification result and calls `next()`, or ends the response with the failure status.
+ * ```ts
+ * app.use("/api", nearAuthExpress({ verifyOptions: { expectedRecipient: "your-service.near" } }));
+ * ```
+ * @param options Token sources, auth mode, and `verify` options.
+ * @returns An Express middleware.
+ */
+export function nearAuthExpress(options: NearAuthMiddlewareOptions = {}) {
+  const authenticate = createNearAuthMiddleware(options);
+
+  return async function nearAuth(
+    req: ExpressLikeRequest,
+    res: ExpressLikeResponse,
+    next: (error?: unknown) => void,
+  ): Promise<void> {
+    let outcome;
+    try {
+      outcome = await authenticate(toFetchRequest(req));
+    } catch (error) {
+      next(error);
+      return;
+    }
+    if (!outcome.ok) {
+      res.status(outcome.status);
+      outcome.response.headers.forEach((value, name) =>
+        res.setHeader(name, value),
+      );
+      res.send(await outcome.response.text());
+      return;
+    }
+    req.nearAuth = outcome.result;
+    next();
+  };
+}
@@ -0,0 +1,37 @@
+import type { VerificationResult } from "../types.js";
+import {
+  createNearAuthMiddleware,
+  type NearAuthMiddlewareOptions,
+} from "./core.js";
+
+/** The parts of a Hono context the middleware uses. */
+export interface HonoLikeContext {
+  req: { raw: Request };
+  set(key: "nearAuth", value: VerificationResult | null): void;
+}
+
+/**
+ * Hono adapter for `createNearAuthMiddleware`. Sets the `nearAuth` context variable
+ * to the verification result, or returns the failure response.
+ * ```ts
+ * app.use("/api/*", nearAuthHono({ verifyOptions: { expectedRecipient: "your-service.near" } }));
+ * app.get("/api/me", (c) => c.json({ accountId: c.get("nearAuth")?.accountId }));
+ * ```
+ * @param options Token sources, auth mode, and `verify` options.
+ * @returns A Hono middleware.
+ */
+export function nearAuthHono(options: NearAuthMiddlewareOptions = {}) {
+  const authenticate = createNearAuthMiddleware(options);
+
+  return async function nearAuth(
+    c: HonoLikeContext,
+    next: () => Promise<void>,
+  ): Promise<Response | void> {
+    const outcome = await authenticate(c.req.raw);
+    if (!outcome.ok) {
+      return outcome.response;
+    }
+    c.set("nearAuth", outcome.result);
+    await next();
+  };
+}
@@ -0,0 +1,145 @@
+import type { AccessKeyPermission, OwnershipCache } from "../types.js";
+
+/**
+ * Options for `createMemoryOwnershipCache`.
+ */
+export interface MemoryOwnershipCacheOptions {
+  /** How long a key found on an account is cached, in milliseconds. Defaults to 5 minutes. */
+  positiveTtl?: number;
+  /** How long a key not found on an account is cached, in milliseconds. Defaults to 30 seconds. */
+  negativeTtl?: number;
+  /** Maximum number of cached lookups. Least recently used entries are evicted first. Defaults to 10,000. */
+  maxSize?: number;
+}
+
+/**
+ * Hit/miss counters of an in-memory ownership cache.
+ */
+export interface OwnershipCacheStats {
+  hits: number;
+  misses: number;
+  evictions: number;
+  size: number;
+}
+
+const DEFAULT_POSITIVE_TTL = 5 * 60 * 1000;
+const DEFAULT_NEGATIVE_TTL = 30 * 1000;
+const DEFAULT_MAX_SIZE = 10_000;
+
+/**
+ * Create an in-memory, LRU-bounded OwnershipCache.
+ * @param options Optional TTL and size configuration.
+ * @returns An OwnershipCache which also reports hit/miss statistics.
+ */
+export function createMemoryOwnershipCache(
+  options: MemoryOwnershipCacheOptions = {},
+): OwnershipCache & { getStats(): OwnershipCacheStats; clear(): void } {
+  const positiveTtl = options.positiveTtl ?? DEFAULT_POSITIVE_TTL;
+  const negativeTtl = options.negativeTtl ?? DEFAULT_NEGATIVE_TTL;
+  const maxSize = options.maxSize ?? DEFAULT_MAX_SIZE;
+
+  // Map iteration order doubles as recency order (oldest first).
+  const entries = new Map<
+    string,
+    { permission: AccessKeyPermission | null; expiresAt: number }
+  >();
+  const stats = { hits: 0, misses: 0, evictions: 0 };
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry || entry.expiresAt <= Date.now()) {
+        if (entry) entries.delete(key);
+        stats.misses++;
+        return undefined;
+      }
+      entries.delete(key);
+      entries.set(key, entry);
+      stats.hits++;
+      return { permission: entry.permission };
+    },
+
+    set(key, entry) {
+      const ttl = entry.permission ? positiveTtl : negativeTtl;
+      if (ttl <= 0) return;
+      entries.delete(key);
+      entries.set(key, {
+        permission: entry.permission,
+        expiresAt: Date.now() + ttl,
+      });
+      while (entries.size > maxSize) {
+        entries.delete(entries.keys().next().value!);
+        stats.evictions++;
+      }
+    },
+
+    getStats() {
+      return { ...stats, size: entries.size };
+    },
+
+    clear() {
+      entries.clear();
+    },
+  };
+}
+
+/** In-flight lookups per cache, so concurrent identical lookups share one request. */
+const inflightLookups = new WeakMap<
+  OwnershipCache,
+  Map<string, Promise<AccessKeyPermission | null>>
+>();
+
+/**
+ * Build the cache key for an ownership lookup.
+ */
+export function ownershipCacheKey(
+  networkId: string,
+  accountId: string,
+  publicKey: string,
+  requireFullAccessKey: boolean,
+): string {
+  return `${networkId}:${requireFullAccessKey ? "full" : "any"}:${accountId}:${publicKey}`;
+}
+
+/**
+ * Resolve an ownership lookup through a cache.
+ * Concurrent lookups for the same key are de-duplicated, and failed lookups are not cached.
+ * @param cache The cache to read from and populate.
+ * @param key The cache key (see `ownershipCacheKey`).
+ * @param load Performs the lookup on a cache miss.
+ * @returns The key's permission and whether it was served from the cache.
+ */
+export async function lookupWithCache(
+  cache: OwnershipCache,
+  key: string,
+  load: () => Promise<AccessKeyPermission | null>,
+): Promise<{ permission: AccessKeyPermission | null; hit: boolean }> {
+  const cached = await cache.get(key);
+  if (cached) {
+    return { permission: cached.permission, hit: true };
+  }
+
+  let inflight = inflightLookups.get(cache);
+  if (!inflight) {
+    inflight = new Map();
+    inflightLookups.set(cache, inflight);
+  }
+
+  const pending = inflight.get(key);
+  if (pending) {
+    return { permission: await pending, hit: false };
+  }
+
+  const lookup = (async () => {
+    try {
+      const permission = await load();
+      await cache.set(key, { permission });
+      return permission;
+    } finally {
+      inflight.delete(key);
+    }
+  })();
+  inflight.set(key, lookup);
+
+  return { permission: await lookup, hit: false };
+}
@@ -0,0 +1,78 @@
+import type {
+  AccessKeyPermission,
+  KeyLookupContext,
+  KeyResolver,
+} from "../types.js";
+import { createRpcKeyResolver } from "./rpc.js";
+
+const FASTNEAR_MAINNET_URL = "https://api.fastnear.com";
+const FASTNEAR_TESTNET_URL = "https://test.api.fastnear.com";
+
+/**
+ * Options for `createFastNearKeyResolver`.
+ */
+export interface FastNearKeyResolverOptions {
+  /**
+   * Base URL of the FastNEAR API.
+   * If not provided, testnet is used for `.testnet` accounts and mainnet otherwise.
+   */
+  baseUrl?: string;
+  /**
+   * NEAR JSON-RPC endpoint used to load Function Call Access Key permissions,
+   * which FastNEAR does not report. Defaults as in `createRpcKeyResolver`.
+   */
+  rpcUrl?: string;
+}
+
+async function fetchAccountIds(url: string): Promise<string[]> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(
+      `FastNEAR request failed with status ${response.status}${response.statusText ? ` ${response.statusText}` : ""}`,
+    );
+  }
+  const data = await response.json();
+  if (!data || !Array.isArray(data.account_ids)) {
+    throw new Error("Unexpected FastNEAR response format");
+  }
+  return data.account_ids;
+}
+
+/**
+ * Creates a KeyResolver backed by the FastNEAR public key API.
+ * Full access is checked with `/v0/public_key/{publicKey}`; when function call
+ * keys are permitted, the key's permission is then loaded over JSON-RPC.
+ * @param options Optional resolver configuration.
+ * @returns A KeyResolver.
+ */
+export function createFastNearKeyResolver(
+  options: FastNearKeyResolverOptions = {},
+): KeyResolver {
+  const rpcResolver = createRpcKeyResolver({ rpcUrl: options.rpcUrl });
+
+  return {
+    async resolveAccessKey(
+      accountId: string,
+      publicKey: string,
+      context: KeyLookupContext,
+    ): Promise<AccessKeyPermission | null> {
+      const baseUrl =
+        options.baseUrl ??
+        (accountId.endsWith(".testnet")
+          ? FASTNEAR_TESTNET_URL
+          : FASTNEAR_MAINNET_URL);
+      const keyUrl = `${baseUrl}/v0/public_key/${publicKey}`;
+
+      const fullAccessAccounts = await fetchAccountIds(keyUrl);
+      if (fullAccessAccounts.includes(accountId)) {
+        return { type: "FullAccess" };
+      }
+      if (context.requireFullAccessKey) {
+        return null;
+      }
+
+      // FastNEAR does not report function call permission details.
+      return rpcResolver.resolveAccessKey(accountId, publicKey, context);
+    },
+  };
+}
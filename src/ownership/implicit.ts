@@ -0,0 +1,41 @@
+import { base58, hex } from "@scure/base";
+import { ED25519_PREFIX } from "../crypto/crypto.js";
+
+const IMPLICIT_ACCOUNT_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * Check whether an account ID is a NEAR implicit account
+ * (the lowercase hex encoding of an ed25519 public key).
+ * @param accountId The account ID to check.
+ * @returns True if the account ID is an implicit account ID.
+ */
+export function isImplicitAccountId(accountId: string): boolean {
+  return IMPLICIT_ACCOUNT_PATTERN.test(accountId);
+}
+
+/**
+ * Check, without any network lookup, whether `publicKey` is the key an
+ * implicit account ID was derived from.
+ * @param accountId The implicit account ID.
+ * @param publicKey The public key string (e.g., "ed25519:...").
+ * @returns True if the account ID is the hex encoding of the public key.
+ */
+export function isImplicitAccountKey(
+  accountId: string,
+  publicKey: string,
+): boolean {
+  if (
+    !isImplicitAccountId(accountId) ||
+    !publicKey.startsWith(ED25519_PREFIX)
+  ) {
+    return false;
+  }
+  try {
+    const publicKeyBytes = base58.decode(
+      publicKey.substring(ED25519_PREFIX.length),
+    );
+    return hex.encode(publicKeyBytes) === accountId;
+  } catch {
+    return false;
+  }
+}
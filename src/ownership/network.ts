@@ -0,0 +1,119 @@
+import { NearAuthError } from "../errors.js";
+import type { KeyResolver, NetworkConfig, VerifyOptions } from "../types.js";
+import { createFastNearKeyResolver } from "./fastnear.js";
+import { createRpcKeyResolver } from "./rpc.js";
+
+/**
+ * Built-in network configurations.
+ */
+export const NETWORKS = {
+  mainnet: {
+    networkId: "mainnet",
+    fastnearUrl: "https://api.fastnear.com",
+    rpcUrl: "https://rpc.mainnet.near.org",
+    isNetworkAccount: (accountId: string) => !accountId.endsWith(".testnet"),
+  },
+  testnet: {
+    networkId: "testnet",
+    fastnearUrl: "https://test.api.fastnear.com",
+    rpcUrl: "https://rpc.testnet.near.org",
+    isNetworkAccount: (accountId: string) => accountId.endsWith(".testnet"),
+  },
+} satisfies Record<string, NetworkConfig>;
+
+const IMPLICIT_ACCOUNT_PATTERN = /^([0-9a-f]{64}|0x[0-9a-f]{40})$/;
+
+/**
+ * Resolve the `network` verify option to a NetworkConfig.
+ * If no network is configured, it is inferred from the account ID
+ * (`.testnet` accounts use testnet, everything else mainnet).
+ * @param network The configured network, if any.
+ * @param accountId The account being verified.
+ * @returns The NetworkConfig to verify against.
+ * @throws NearAuthError with code CONFIGURATION_INVALID if the network name is unknown
+ */
+export function resolveNetwork(
+  network: "mainnet" | "testnet" | NetworkConfig | undefined,
+  accountId: string,
+): NetworkConfig {
+  if (network === undefined) {
+    return accountId.endsWith(".testnet") ? NETWORKS.testnet : NETWORKS.mainnet;
+  }
+  if (typeof network === "string") {
+    const config = NETWORKS[network];
+    if (!config) {
+      throw new NearAuthError(
+        "CONFIGURATION_INVALID",
+        `Unknown network: "${network}".`,
+        { details: { network } },
+      );
+    }
+    return config;
+  }
+  return network;
+}
+
+/**
+ * Check whether an account ID can belong to the given network.
+ * Implicit accounts exist on every network; named accounts are checked
+ * with the network's `isNetworkAccount`, if it has one.
+ * @param accountId The account ID to check.
+ * @param network The network to check against.
+ * @returns True if the account can belong to the network.
+ */
+export function isAccountOnNetwork(
+  accountId: string,
+  network: NetworkConfig,
+): boolean {
+  if (IMPLICIT_ACCOUNT_PATTERN.test(accountId)) {
+    return true;
+  }
+  return network.isNetworkAccount ? network.isNetworkAccount(accountId) : true;
+}
+
+/**
+ * Create the default KeyResolver for a network.
+ * Uses FastNEAR when the network has a FastNEAR URL, otherwise JSON-RPC.
+ * @param network The network to resolve keys on.
+ * @returns A KeyResolver.
+ * @throws NearAuthError with code CONFIGURATION_INVALID if the network has neither URL
+ */
+export function createNetworkKeyResolver(network: NetworkConfig): KeyResolver {
+  if (network.fastnearUrl) {
+    return createFastNearKeyResolver({
+      baseUrl: network.fastnearUrl,
+      rpcUrl: network.rpcUrl,
+    });
+  }
+  if (network.rpcUrl) {
+    return createRpcKeyResolver({ rpcUrl: network.rpcUrl });
+  }
+  throw missingEndpointError(network);
+}
+
+function missingEndpointError(network: NetworkConfig): NearAuthError {
+  return new NearAuthError(
+    "CONFIGURATION_INVALID",
+    `Network "${network.networkId}" has no fastnearUrl or rpcUrl; provide a keyResolver.`,
+    { details: { networkId: network.networkId } },
+  );
+}
+
+/**
+ * Check the `network` and `keyResolver` options before any token is verified, so that
+ * a configuration mistake is reported as such rather than as a failed lookup.
+ * @param options The verify options.
+ * @throws NearAuthError with code CONFIGURATION_INVALID if the network name is unknown,
+ * or the network has no URL to resolve keys with and no `keyResolver` is provided
+ */
+export function checkNetworkOptions(
+  options: Pick<VerifyOptions, "network" | "keyResolver"> | undefined,
+): void {
+  if (options?.network === undefined) {
+    return;
+  }
+  const network = resolveNetwork(options.network, "");
+  if (!options.keyResolver && !network.fastnearUrl && !network.rpcUrl) {
+    throw missingEndpointError(network);
+  }
+}
@@ -0,0 +1,195 @@
+import type {
+  AccessKeyInfo,
+  AccessKeyPermission,
+  KeyResolver,
+} from "../types.js";
+
+const RPC_MAINNET_URL = "https://rpc.mainnet.near.org";
+const RPC_TESTNET_URL = "https://rpc.testnet.near.org";
+
+/**
+ * Options for `createRpcKeyResolver`.
+ */
+export interface RpcKeyResolverOptions {
+  /**
+   * NEAR JSON-RPC endpoint, e.g. a local sandbox at "http://localhost:3030".
+   * If not provided, testnet RPC is used for `.testnet` accounts and mainnet RPC otherwise.
+   */
+  rpcUrl?: string;
+  /**
+   * Extra headers sent with every request (e.g. an API key for a private RPC provider).
+   */
+  headers?: Record<string, string>;
+}
+
+/** Permission as returned by the NEAR RPC (`"FullAccess"` or `{ FunctionCall: ... }`). */
+type RpcAccessKeyPermission =
+  | "FullAccess"
+  | {
+      FunctionCall: {
+        allowance: string | null;
+        receiver_id: string;
+        method_names: string[];
+      };
+    };
+
+/** Result of a `view_access_key` query. */
+interface RpcAccessKeyView {
+  permission: RpcAccessKeyPermission;
+}
+
+/** Result of a `view_access_key_list` query. */
+interface RpcAccessKeyList {
+  keys: { public_key: string; access_key: RpcAccessKeyView }[];
+}
+
+/** A JSON-RPC response to a `query` request, before its result is checked. */
+interface RpcQueryResponse {
+  error?: { name?: string; message?: string; cause?: { name?: string } };
+  result?: unknown;
+}
+
+/** RPC errors which mean the key is not on the account, rather than a failed lookup. */
+const NOT_FOUND_ERRORS = ["UNKNOWN_ACCESS_KEY", "UNKNOWN_ACCOUNT"];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function isRpcAccessKeyPermission(
+  value: unknown,
+): value is RpcAccessKeyPermission {
+  if (value === "FullAccess") {
+    return true;
+  }
+  if (!isObject(value) || !isObject(value.FunctionCall)) {
+    return false;
+  }
+  const { receiver_id, method_names } = value.FunctionCall;
+  return (
+    typeof receiver_id === "string" &&
+    Array.isArray(method_names) &&
+    method_names.every((name) => typeof name === "string")
+  );
+}
+
+function isRpcAccessKeyView(value: unknown): value is RpcAccessKeyView {
+  return isObject(value) && isRpcAccessKeyPermission(value.permission);
+}
+
+function isRpcAccessKeyList(value: unknown): value is RpcAccessKeyList {
+  return (
+    isObject(value) &&
+    Array.isArray(value.keys) &&
+    value.keys.every(
+      (key) =>
+        isObject(key) &&
+        typeof key.public_key === "string" &&
+        isRpcAccessKeyView(key.access_key),
+    )
+  );
+}
+
+function toAccessKeyPermission(
+  permission: RpcAccessKeyPermission,
+): AccessKeyPermission {
+  if (permission === "FullAccess") {
+    return { type: "FullAccess" };
+  }
+  return {
+    type: "FunctionCall",
+    receiverId: permission.FunctionCall.receiver_id,
+    methodNames: permission.FunctionCall.method_names,
+  };
+}
+
+/**
+ * Creates a KeyResolver that checks key ownership against a NEAR JSON-RPC endpoint,
+ * using `view_access_key` and `view_access_key_list` at `finality: "final"`.
+ * Unlike an indexer, the answer always reflects current chain state.
+ * @param options Optional resolver configuration.
+ * @returns A KeyResolver which also supports listing an account's keys.
+ */
+export function createRpcKeyResolver(
+  options: RpcKeyResolverOptions = {},
+): KeyResolver & {
+  listAccessKeys(accountId: string): Promise<AccessKeyInfo[]>;
+} {
+  async function query<T>(
+    accountId: string,
+    params: Record<string, unknown>,
+    isResult: (result: unknown) => result is T,
+  ): Promise<T | null> {
+    const rpcUrl =
+      options.rpcUrl ??
+      (accountId.endsWith(".testnet") ? RPC_TESTNET_URL : RPC_MAINNET_URL);
+
+    const response = await fetch(rpcUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...options.headers },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: "near-sign-verify",
+        method: "query",
+        params: { finality: "final", account_id: accountId, ...params },
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(
+        `RPC request failed with status ${response.status}${response.statusText ? ` ${response.statusText}` : ""}`,
+      );
+    }
+
+    const data: RpcQueryResponse | null = await response.json();
+    if (data?.error) {
+      const cause = data.error.cause?.name;
+      if (cause !== undefined && NOT_FOUND_ERRORS.includes(cause)) {
+        return null;
+      }
+      throw new Error(
+        `RPC error: ${cause ?? data.error.name ?? data.error.message ?? "unknown"}`,
+      );
+    }
+    const result = data?.result;
+    // Older nodes report query errors inside the result.
+    if (isObject(result) && typeof result.error === "string") {
+      if (/does not exist/.test(result.error)) {
+        return null;
+      }
+      throw new Error(`RPC error: ${result.error}`);
+    }
+    if (!isResult(result)) {
+      throw new Error("Unexpected RPC response format");
+    }
+    return result;
+  }
+
+  return {
+    async resolveAccessKey(accountId, publicKey) {
+      const result = await query(
+        accountId,
+        { request_type: "view_access_key", public_key: publicKey },
+        isRpcAccessKeyView,
+      );
+      if (!result) {
+        return null;
+      }
+      return toAccessKeyPermission(result.permission);
+    },
+
+    async listAccessKeys(accountId) {
+      const result = await query(
+        accountId,
+        { request_type: "view_access_key_list" },
+        isRpcAccessKeyList,
+      );
+      if (!result) {
+        return [];
+      }
+      return result.keys.map((key) => ({
+        publicKey: key.public_key,
+        permission: toAccessKeyPermission(key.access_key.permission),
+      }));
+    },
+  };
+}
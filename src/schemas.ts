@@ -25,8 +25,50 @@ export const NearAuthDataSchema = b.struct({
   state: b.option(b.string()),
 });
 
+/**
+ * Zorsh schema for the compact (v2) token body: the key type, public key and
+ * signature are stored as raw bytes instead of encoded strings
+ */
+export const CompactNearAuthDataSchema = b.struct({
+  accountId: b.string(),
+  key: b.enum({
+    Ed25519: b.struct({
+      publicKey: b.array(b.u8(), 32),
+      signature: b.array(b.u8(), 64),
+    }),
+    Secp256k1: b.struct({
+      publicKey: b.array(b.u8(), 64),
+      signature: b.array(b.u8(), 65), // r || s || recovery id
+    }),
+  }),
+  message: b.string(),
+  nonce: b.array(b.u8(), 32),
+  recipient: b.string(),
+  callbackUrl: b.option(b.string()),
+  state: b.option(b.string()),
+});
+
+/**
+ * Zorsh schema for the validity section of a versioned token
+ * (ms since epoch, 0 when not set)
+ */
+export const TokenValiditySchema = b.struct({
+  expiresAt: b.u64(),
+  notBefore: b.u64(),
+});
+
+/**
+ * Zorsh schema for the data a server challenge's MAC is computed over
+ */
+export const ChallengeSchema = b.struct({
+  nonce: b.array(b.u8(), 32),
+  recipient: b.string(),
+  expiresAt: b.u64(),
+});
+
 /**
  * TypeScript types inferred from zorsh schemas
  */
 export type SignedPayload = b.infer<typeof SignedPayloadSchema>;
 export type NearAuthData = b.infer<typeof NearAuthDataSchema>;
+export type CompactNearAuthData = b.infer<typeof CompactNearAuthDataSchema>;
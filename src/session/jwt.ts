@@ -0,0 +1,145 @@
+import { ed25519 } from "@noble/curves/ed25519.js";
+import { hmac } from "@noble/hashes/hmac.js";
+import { sha256 } from "@noble/hashes/sha2.js";
+import { base58, base64urlnopad } from "@scure/base";
+import { ED25519_PREFIX } from "../crypto/crypto.js";
+import { SessionError } from "../errors.js";
+import { equalBytes } from "../utils/encoding.js";
+
+/** A key that signs session tokens. */
+export type JwtSigningKey =
+  | { alg: "HS256"; secret: Uint8Array }
+  | { alg: "EdDSA"; secretKey: Uint8Array };
+
+/** A key that verifies session tokens. */
+export type JwtVerificationKey =
+  | { alg: "HS256"; secret: Uint8Array }
+  | { alg: "EdDSA"; publicKey: Uint8Array };
+
+/**
+ * Decode an "ed25519:<base58>" KeyPair string to its 32-byte seed.
+ */
+export function decodeEd25519KeyPair(keyPair: string): Uint8Array {
+  if (!keyPair.startsWith(ED25519_PREFIX)) {
+    throw new Error(
+      `Session tokens can only be signed with ed25519 keys, got "${keyPair.split(":")[0]}".`,
+    );
+  }
+  const bytes = base58.decode(keyPair.substring(ED25519_PREFIX.length));
+  if (bytes.length !== 64) {
+    throw new Error(
+      `Expected decoded private key to be 64 bytes for Ed25519, got ${bytes.length}`,
+    );
+  }
+  return bytes.slice(0, 32);
+}
+
+/**
+ * Decode an "ed25519:<base58>" public key string.
+ */
+export function decodeEd25519PublicKey(publicKey: string): Uint8Array {
+  if (!publicKey.startsWith(ED25519_PREFIX)) {
+    throw new Error(
+      `Session tokens can only be verified with ed25519 keys, got "${publicKey.split(":")[0]}".`,
+    );
+  }
+  const bytes = base58.decode(publicKey.substring(ED25519_PREFIX.length));
+  if (bytes.length !== 32) {
+    throw new Error(
+      `Expected decoded public key to be 32 bytes for Ed25519, got ${bytes.length}`,
+    );
+  }
+  return bytes;
+}
+
+function encodeJson(value: unknown): string {
+  return base64urlnopad.encode(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+/**
+ * Encode and sign a compact JWT.
+ */
+export function signJwt(
+  payload: Record<string, unknown>,
+  key: JwtSigningKey,
+): string {
+  const signingInput = `${encodeJson({ alg: key.alg, typ: "JWT" })}.${encodeJson(payload)}`;
+  const data = new TextEncoder().encode(signingInput);
+  const signature =
+    key.alg === "HS256"
+      ? hmac(sha256, key.secret, data)
+      : ed25519.sign(data, key.secretKey);
+  return `${signingInput}.${base64urlnopad.encode(signature)}`;
+}
+
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check a compact JWT's signature and decode its payload.
+ * The algorithm is fixed by the key, never taken from the token's header.
+ * @throws SessionError with code SESSION_INVALID
+ */
+export function verifyJwt(
+  token: string,
+  key: JwtVerificationKey,
+): Record<string, unknown> {
+  const parts = token.split(".");
+  if (parts.length !== 3) {
+    throw new SessionError(
+      "SESSION_INVALID",
+      "Session verification failed: not a compact JWT.",
+    );
+  }
+
+  let header: unknown;
+  let payload: unknown;
+  let signature: Uint8Array;
+  try {
+    header = JSON.parse(
+      new TextDecoder().decode(base64urlnopad.decode(parts[0])),
+    );
+    payload = JSON.parse(
+      new TextDecoder().decode(base64urlnopad.decode(parts[1])),
+    );
+    signature = base64urlnopad.decode(parts[2]);
+  } catch (error) {
+    throw new SessionError(
+      "SESSION_INVALID",
+      "Session verification failed: not a compact JWT.",
+      { cause: error },
+    );
+  }
+  const alg = isJsonObject(header) ? header.alg : undefined;
+  if (alg !== key.alg) {
+    throw new SessionError(
+      "SESSION_INVALID",
+      `Session verification failed: expected algorithm ${key.alg}, got ${String(alg)}.`,
+    );
+  }
+
+  const data = new TextEncoder().encode(`${parts[0]}.${parts[1]}`);
+  let valid: boolean;
+  try {
+    valid =
+      key.alg === "HS256"
+        ? equalBytes(signature, hmac(sha256, key.secret, data))
+        : ed25519.verify(signature, data, key.publicKey);
+  } catch {
+    valid = false;
+  }
+  if (!valid) {
+    throw new SessionError(
+      "SESSION_INVALID",
+      "Session verification failed: invalid signature.",
+    );
+  }
+  if (!isJsonObject(payload)) {
+    throw new SessionError(
+      "SESSION_INVALID",
+      "Session verification failed: payload is not an object.",
+    );
+  }
+  return payload;
+}
@@ -0,0 +1,390 @@
+import { base64urlnopad } from "@scure/base";
+import { getKeyPairPublicKey } from "../crypto/keyPair.js";
+import {
+  ClaimValidationError,
+  NearAuthError,
+  SessionError,
+} from "../errors.js";
+import type { NonceStore, VerificationResult } from "../types.js";
+import {
+  decodeEd25519KeyPair,
+  decodeEd25519PublicKey,
+  signJwt,
+  verifyJwt,
+  type JwtSigningKey,
+  type JwtVerificationKey,
+} from "./jwt.js";
+
+/** Claims set by the library, which `claims` cannot override. */
+const RESERVED_CLAIMS = [
+  "sub",
+  "aud",
+  "iss",
+  "iat",
+  "exp",
+  "jti",
+  "auth_time",
+  "publicKey",
+  "networkId",
+  "tokenUse",
+];
+
+/**
+ * Options for `issueSession`.
+ * Provide either `secret` (HS256) or `keyPair` (EdDSA).
+ */
+export interface IssueSessionOptions {
+  /** Secret for HS256 tokens. Keep it private and at least 32 bytes. */
+  secret?: string | Uint8Array;
+  /** Ed25519 KeyPair string ("ed25519:..."), for EdDSA tokens verifiable with its public key. */
+  keyPair?: string;
+  /** How long the session token is valid for, in milliseconds. */
+  ttl: number;
+  /**
+   * How long the session can be refreshed for, in milliseconds from `issueSession`.
+   * Refreshing does not extend it. If not provided, no refresh token is issued.
+   */
+  refreshTtl?: number;
+  /** Additional claims to include in the session token, carried over on refresh. */
+  claims?: Record<string, unknown>;
+  /** Issuer (`iss`) of the tokens. */
+  issuer?: string;
+}
+
+/**
+ * Options for `refreshSession`: the key and token lifetime, and an optional store
+ * that makes each refresh token single-use.
+ */
+export interface RefreshSessionOptions
+  extends Omit<IssueSessionOptions, "refreshTtl" | "claims"> {
+  /**
+   * Store used to reject refresh tokens that were already used (see `createMemoryNonceStore`).
+   * Without it, a refresh token can be used any number of times until it expires.
+   */
+  refreshTokenStore?: NonceStore;
+}
+
+/**
+ * Options for `verifySession`.
+ * Provide either `secret` (HS256) or `publicKey` (EdDSA).
+ */
+export interface VerifySessionOptions {
+  /** Secret the HS256 tokens were issued with. */
+  secret?: string | Uint8Array;
+  /** Public key ("ed25519:...") of the KeyPair the EdDSA tokens were issued with. */
+  publicKey?: string;
+  /** Expected recipient of the original NEP-413 token. */
+  expectedRecipient?: string;
+  /** Expected issuer (`iss`) of the token. */
+  issuer?: string;
+}
+
+/**
+ * A session issued by `issueSession` or `refreshSession`.
+ */
+export interface Session {
+  /** The session token (a compact JWT), e.g. for an `Authorization: Bearer` header. */
+  token: string;
+  /** Expiry of the session token, in ms since epoch. */
+  expiresAt: number;
+  /** Token to pass to `refreshSession`, if `refreshTtl` was provided. */
+  refreshToken?: string;
+  /** Expiry of the refresh token, in ms since epoch. */
+  refreshExpiresAt?: number;
+}
+
+/**
+ * The claims of a verified session token.
+ */
+export interface SessionClaims {
+  /** The NEAR account ID authenticated by the original NEP-413 token. */
+  accountId: string;
+  /** The public key the original token was signed with. */
+  publicKey: string;
+  /** The recipient of the original token. */
+  recipient: string;
+  /** The ID of the network key ownership was verified on. */
+  networkId: string;
+  /** When the session token was issued, in ms since epoch. */
+  issuedAt: number;
+  /** Expiry of the session token, in ms since epoch. */
+  expiresAt: number;
+  /** When the original token was verified and the session first issued, in ms since epoch. */
+  authenticatedAt: number;
+  /** The additional claims passed to `issueSession`. */
+  claims: Record<string, unknown>;
+}
+
+function toSecretBytes(secret: string | Uint8Array): Uint8Array {
+  return typeof secret === "string" ? new TextEncoder().encode(secret) : secret;
+}
+
+function signingKeyFrom(options: IssueSessionOptions): JwtSigningKey {
+  if ((options.secret === undefined) === (options.keyPair === undefined)) {
+    throw new Error("Exactly one of secret or keyPair is required.");
+  }
+  return options.secret !== undefined
+    ? { alg: "HS256", secret: toSecretBytes(options.secret) }
+    : { alg: "EdDSA", secretKey: decodeEd25519KeyPair(options.keyPair!) };
+}
+
+function verificationKeyFrom(
+  options: VerifySessionOptions,
+): JwtVerificationKey {
+  if ((options.secret === undefined) === (options.publicKey === undefined)) {
+    throw new Error("Exactly one of secret or publicKey is required.");
+  }
+  return options.secret !== undefined
+    ? { alg: "HS256", secret: toSecretBytes(options.secret) }
+    : { alg: "EdDSA", publicKey: decodeEd25519PublicKey(options.publicKey!) };
+}
+
+function generateTokenId(): string {
+  return base64urlnopad.encode(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+interface SessionIdentity {
+  accountId: string;
+  publicKey: string;
+  recipient: string;
+  networkId: string;
+}
+
+/**
+ * Sign a session token, and a refresh token if the session can still be refreshed.
+ * Times are in seconds since epoch, as in JWT claims.
+ */
+function issueTokens(
+  identity: SessionIdentity,
+  authTime: number,
+  refreshExp: number | undefined,
+  claims: Record<string, unknown>,
+  options: IssueSessionOptions,
+): Session {
+  const key = signingKeyFrom(options);
+  const now = Date.now();
+  const iat = Math.floor(now / 1000);
+  const common = {
+    ...claims,
+    sub: identity.accountId,
+    aud: identity.recipient,
+    ...(options.issuer !== undefined ? { iss: options.issuer } : {}),
+    iat,
+    auth_time: authTime,
+    publicKey: identity.publicKey,
+    networkId: identity.networkId,
+  };
+
+  const exp = Math.floor((now + options.ttl) / 1000);
+  const session: Session = {
+    token: signJwt(
+      { ...common, exp, jti: generateTokenId(), tokenUse: "access" },
+      key,
+    ),
+    expiresAt: exp * 1000,
+  };
+
+  if (refreshExp !== undefined) {
+    session.refreshToken = signJwt(
+      {
+        ...common,
+        exp: refreshExp,
+        jti: generateTokenId(),
+        tokenUse: "refresh",
+      },
+      key,
+    );
+    session.refreshExpiresAt = refreshExp * 1000;
+  }
+  return session;
+}
+
+/**
+ * Check the registered claims of a decoded session or refresh token.
+ */
+function readClaims(
+  payload: Record<string, unknown>,
+  tokenUse: "access" | "refresh",
+  options: { expectedRecipient?: string; issuer?: string },
+): SessionClaims & { tokenId: string } {
+  const { sub, aud, iss, iat, exp, jti, auth_time, publicKey, networkId } =
+    payload;
+  if (
+    typeof sub !== "string" ||
+    typeof aud !== "string" ||
+    typeof publicKey !== "string" ||
+    typeof networkId !== "string" ||
+    typeof jti !== "string" ||
+    typeof iat !== "number" ||
+    typeof exp !== "number" ||
+    typeof auth_time !== "number"
+  ) {
+    throw new SessionError(
+      "SESSION_INVALID",
+      "Session verification failed: missing or invalid claims.",
+    );
+  }
+  if (payload.tokenUse !== tokenUse) {
+    throw new SessionError(
+      "SESSION_INVALID",
+      `Session verification failed: expected a ${tokenUse === "access" ? "session" : "refresh"} token.`,
+    );
+  }
+  if (options.issuer !== undefined && iss !== options.issuer) {
+    throw new SessionError(
+      "SESSION_INVALID",
+      `Session verification failed: expected issuer "${options.issuer}", got "${String(iss)}".`,
+    );
+  }
+  if (Date.now() >= exp * 1000) {
+    throw new SessionError(
+      "SESSION_EXPIRED",
+      "Session verification failed: token has expired.",
+      { details: { expiresAt: exp * 1000 } },
+    );
+  }
+  if (
+    options.expectedRecipient !== undefined &&
+    aud !== options.expectedRecipient
+  ) {
+    throw new ClaimValidationError(
+      "RECIPIENT_MISMATCH",
+      `Recipient mismatch: expected '${options.expectedRecipient}', but recipient is '${aud}'.`,
+      { details: { expected: options.expectedRecipient, actual: aud } },
+    );
+  }
+
+  const claims: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(payload)) {
+    if (!RESERVED_CLAIMS.includes(name)) claims[name] = value;
+  }
+  return {
+    accountId: sub,
+    publicKey,
+    recipient: aud,
+    networkId,
+    issuedAt: iat * 1000,
+    expiresAt: exp * 1000,
+    authenticatedAt: auth_time * 1000,
+    claims,
+    tokenId: jti,
+  };
+}
+
+/**
+ * Exchange a verified NEP-413 token for a short-lived session token (a compact JWT),
+ * which `verifySession` checks offline, without a key ownership lookup.
+ * With `refreshTtl`, also issues a refresh token for `refreshSession`.
+ * @param result The result of `verify` for the NEP-413 token.
+ * @param options The signing key, token lifetimes and additional claims.
+ * @returns The session token, its expiry, and the refresh token if requested.
+ * @throws Error if the key is missing or invalid, or `claims` sets a reserved claim
+ */
+export function issueSession(
+  result: VerificationResult,
+  options: IssueSessionOptions,
+): Session {
+  const claims = options.claims ?? {};
+  const reserved = Object.keys(claims).filter((name) =>
+    RESERVED_CLAIMS.includes(name),
+  );
+  if (reserved.length > 0) {
+    throw new Error(`Reserved session claims: ${reserved.join(", ")}.`);
+  }
+
+  const now = Date.now();
+  return issueTokens(
+    {
+      accountId: result.accountId,
+      publicKey: result.publicKey,
+      recipient: result.recipient,
+      networkId: result.networkId,
+    },
+    Math.floor(now / 1000),
+    options.refreshTtl !== undefined
+      ? Math.floor((now + options.refreshTtl) / 1000)
+      : undefined,
+    claims,
+    options,
+  );
+}
+
+/**
+ * Verify a session token issued by `issueSession` or `refreshSession`.
+ * Throws a NearAuthError (see `code`) if the token is invalid or expired.
+ * @param token The session token.
+ * @param options The verification key, and the expected recipient and issuer.
+ * @returns The session's claims.
+ */
+export function verifySession(
+  token: string,
+  options: VerifySessionOptions,
+): SessionClaims {
+  const payload = verifyJwt(token, verificationKeyFrom(options));
+  const { tokenId: _tokenId, ...claims } = readClaims(
+    payload,
+    "access",
+    options,
+  );
+  return claims;
+}
+
+/**
+ * Exchange a refresh token for a new session token and refresh token.
+ * The new tokens carry the account, key and claims of the original session, and the
+ * refresh token keeps its original expiry. With `refreshTokenStore`, each refresh token
+ * can be used only once, so a stolen refresh token is detected when it is used twice.
+ * @param refreshToken The refresh token from `issueSession` or a previous `refreshSession`.
+ * @param options The signing key and session token lifetime.
+ * @returns The new session.
+ */
+export async function refreshSession(
+  refreshToken: string,
+  options: RefreshSessionOptions,
+): Promise<Session> {
+  const key = signingKeyFrom(options);
+  const payload = verifyJwt(
+    refreshToken,
+    key.alg === "HS256"
+      ? key
+      : {
+          alg: "EdDSA",
+          publicKey: decodeEd25519PublicKey(
+            await getKeyPairPublicKey(options.keyPair!),
+          ),
+        },
+  );
+  const refreshClaims = readClaims(payload, "refresh", options);
+
+  if (options.refreshTokenStore) {
+    let unused: boolean;
+    try {
+      unused = await options.refreshTokenStore.consume(
+        refreshClaims.accountId,
+        base64urlnopad.decode(refreshClaims.tokenId),
+        refreshClaims.expiresAt,
+      );
+    } catch (error) {
+      throw new NearAuthError(
+        "NONCE_STORE_UNAVAILABLE",
+        `Refresh token store unavailable: ${error instanceof Error ? error.message : String(error)}`,
+        { cause: error },
+      );
+    }
+    if (!unused) {
+      throw new SessionError(
+        "SESSION_REFRESH_REUSED",
+        "Session refresh failed: refresh token has already been used.",
+        { details: { accountId: refreshClaims.accountId } },
+      );
+    }
+  }
+
+  return issueTokens(
+    refreshClaims,
+    refreshClaims.authenticatedAt / 1000,
+    refreshClaims.expiresAt / 1000,
+    refreshClaims.claims,
+    options,
+  );
+}
@@ -0,0 +1,290 @@
+import { ClaimValidationError } from "../errors.js";
+import type { SignInVerifyOptions } from "../types.js";
+
+/**
+ * The fields of a Sign-In With NEAR message, modeled on Sign-In With Ethereum (EIP-4361).
+ * Dates are ISO 8601 strings.
+ */
+export interface SignInMessage {
+  /** The domain requesting the sign-in (e.g., "app.example.com"). */
+  domain: string;
+  /** The NEAR account signing in. */
+  accountId: string;
+  /** A human-readable statement, on a single line. */
+  statement?: string;
+  /** The URI the sign-in is for, usually the origin or login endpoint. */
+  uri: string;
+  /** Message format version. Always "1". */
+  version: "1";
+  /** The NEAR network the account is on (e.g., "mainnet"). */
+  networkId: string;
+  /** When the message was created. */
+  issuedAt: string;
+  /** When the sign-in expires. */
+  expirationTime?: string;
+  /** When the sign-in becomes valid. */
+  notBefore?: string;
+  /** An identifier of the sign-in request. */
+  requestId?: string;
+  /** URIs the user is granting access to. */
+  resources?: string[];
+}
+
+/**
+ * Fields for `createSignInMessage`. `version` defaults to "1" and `issuedAt` to now.
+ */
+export type CreateSignInMessageOptions = Omit<
+  SignInMessage,
+  "version" | "issuedAt" | "expirationTime" | "notBefore"
+> & {
+  issuedAt?: string | Date;
+  expirationTime?: string | Date;
+  notBefore?: string | Date;
+};
+
+const HEADER_SUFFIX = " wants you to sign in with your NEAR account:";
+
+/** Optional fields, in the order they are rendered. */
+const OPTIONAL_FIELDS = [
+  ["expirationTime", "Expiration Time"],
+  ["notBefore", "Not Before"],
+  ["requestId", "Request ID"],
+] as const;
+
+function toTimestamp(value: string | Date, field: string): string {
+  const time = typeof value === "string" ? Date.parse(value) : value.getTime();
+  if (Number.isNaN(time)) {
+    throw new Error(
+      `Invalid Sign-In With NEAR message: ${field} is not a date.`,
+    );
+  }
+  return typeof value === "string" ? value : value.toISOString();
+}
+
+function checkLine(value: string, field: string): void {
+  if (/[\r\n]/.test(value)) {
+    throw new Error(
+      `Invalid Sign-In With NEAR message: ${field} must be a single line.`,
+    );
+  }
+}
+
+/**
+ * Render a Sign-In With NEAR message, to be passed to `sign` as the message.
+ * Wallets show it to the user as-is:
+ * ```text
+ * app.example.com wants you to sign in with your NEAR account:
+ * alice.near
+ *
+ * Sign in to Example.
+ *
+ * URI: https://app.example.com
+ * Version: 1
+ * Network: mainnet
+ * Issued At: 2024-01-01T00:00:00.000Z
+ * ```
+ * @param options The message fields.
+ * @returns The message text.
+ * @throws Error if a required field is empty, a field spans several lines, or a date is invalid
+ */
+export function createSignInMessage(
+  options: CreateSignInMessageOptions,
+): string {
+  const { domain, accountId, statement, uri, networkId, resources } = options;
+  for (const [field, value] of Object.entries({
+    domain,
+    accountId,
+    uri,
+    networkId,
+  })) {
+    if (!value) {
+      throw new Error(
+        `Invalid Sign-In With NEAR message: ${field} is required.`,
+      );
+    }
+    checkLine(value, field);
+  }
+
+  const fields: Record<string, string | undefined> = {
+    requestId: options.requestId,
+    expirationTime:
+      options.expirationTime !== undefined
+        ? toTimestamp(options.expirationTime, "expirationTime")
+        : undefined,
+    notBefore:
+      options.notBefore !== undefined
+        ? toTimestamp(options.notBefore, "notBefore")
+        : undefined,
+  };
+
+  const lines = [`${domain}${HEADER_SUFFIX}`, accountId, ""];
+  if (statement) {
+    checkLine(statement, "statement");
+    lines.push(statement);
+  }
+  lines.push(
+    "",
+    `URI: ${uri}`,
+    "Version: 1",
+    `Network: ${networkId}`,
+    `Issued At: ${toTimestamp(options.issuedAt ?? new Date(), "issuedAt")}`,
+  );
+  for (const [field, label] of OPTIONAL_FIELDS) {
+    const value = fields[field];
+    if (value !== undefined) {
+      checkLine(value, field);
+      lines.push(`${label}: ${value}`);
+    }
+  }
+  if (resources?.length) {
+    lines.push("Resources:");
+    for (const resource of resources) {
+      checkLine(resource, "resources");
+      lines.push(`- ${resource}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Parse a message rendered by `createSignInMessage`.
+ * @param message The message text, e.g. `VerificationResult.message`.
+ * @returns The message fields.
+ * @throws Error if the message is not a well-formed Sign-In With NEAR message
+ */
+export function parseSignInMessage(message: string): SignInMessage {
+  const lines = message.split("\n");
+  let index = 0;
+  const fail = (reason: string): never => {
+    throw new Error(
+      `Invalid Sign-In With NEAR message: ${reason} (line ${index + 1}).`,
+    );
+  };
+  const next = () =>
+    index < lines.length ? lines[index++] : fail("truncated");
+  const field = (label: string, optional = false): string | undefined => {
+    const prefix = `${label}: `;
+    if (index < lines.length && lines[index].startsWith(prefix)) {
+      return lines[index++].substring(prefix.length);
+    }
+    return optional ? undefined : fail(`expected "${label}"`);
+  };
+
+  const header = next();
+  if (!header.endsWith(HEADER_SUFFIX) || header === HEADER_SUFFIX) {
+    index--;
+    fail("expected the sign-in header");
+  }
+  const domain = header.substring(0, header.length - HEADER_SUFFIX.length);
+  const accountId = next();
+  if (!accountId) {
+    index--;
+    fail("expected an account ID");
+  }
+  if (next() !== "") {
+    index--;
+    fail("expected an empty line");
+  }
+  let statement: string | undefined = next();
+  if (statement === "") {
+    statement = undefined;
+  } else if (next() !== "") {
+    index--;
+    fail("expected an empty line");
+  }
+
+  const uri = field("URI")!;
+  const version = field("Version");
+  if (version !== "1") {
+    index--;
+    fail(`unsupported version "${version}"`);
+  }
+  const networkId = field("Network")!;
+  const issuedAt = field("Issued At")!;
+  const parsed: SignInMessage = {
+    domain,
+    accountId,
+    ...(statement !== undefined ? { statement } : {}),
+    uri,
+    version: "1",
+    networkId,
+    issuedAt,
+  };
+  for (const [name, label] of OPTIONAL_FIELDS) {
+    const value = field(label, true);
+    if (value !== undefined) parsed[name] = value;
+  }
+  if (index < lines.length && lines[index] === "Resources:") {
+    index++;
+    parsed.resources = [];
+    while (index < lines.length && lines[index].startsWith("- ")) {
+      parsed.resources.push(lines[index++].substring(2));
+    }
+  }
+  if (index < lines.length) {
+    fail("unexpected content");
+  }
+
+  for (const name of ["issuedAt", "expirationTime", "notBefore"] as const) {
+    const value = parsed[name];
+    if (value !== undefined && Number.isNaN(Date.parse(value))) {
+      throw new Error(
+        `Invalid Sign-In With NEAR message: ${name} is not a date.`,
+      );
+    }
+  }
+  return parsed;
+}
+
+/**
+ * Parse a token's message as a Sign-In With NEAR message and check it against the
+ * request and the token: domain, URI, account, network, expiration time and not-before.
+ * Fields whose expected value is undefined are not compared.
+ * @throws ClaimValidationError with code MESSAGE_MISMATCH, TOKEN_EXPIRED or TOKEN_NOT_YET_VALID
+ */
+export function validateSignInMessage(
+  message: string,
+  expected: SignInVerifyOptions & { accountId: string; networkId?: string },
+): SignInMessage {
+  let parsed: SignInMessage;
+  try {
+    parsed = parseSignInMessage(message);
+  } catch (error) {
+    throw new ClaimValidationError(
+      "MESSAGE_MISMATCH",
+      error instanceof Error ? error.message : String(error),
+      { cause: error },
+    );
+  }
+
+  for (const field of ["domain", "uri", "accountId", "networkId"] as const) {
+    const expectedValue = expected[field];
+    if (expectedValue !== undefined && parsed[field] !== expectedValue) {
+      throw new ClaimValidationError(
+        "MESSAGE_MISMATCH",
+        `Sign-In With NEAR message mismatch: expected ${field} '${expectedValue}', got '${parsed[field]}'.`,
+        { details: { field, expected: expectedValue, actual: parsed[field] } },
+      );
+    }
+  }
+
+  const now = Date.now();
+  if (
+    parsed.expirationTime !== undefined &&
+    now >= Date.parse(parsed.expirationTime)
+  ) {
+    throw new ClaimValidationError(
+      "TOKEN_EXPIRED",
+      "Sign-In With NEAR message has expired.",
+      { details: { expirationTime: parsed.expirationTime } },
+    );
+  }
+  if (parsed.notBefore !== undefined && now < Date.parse(parsed.notBefore)) {
+    throw new ClaimValidationError(
+      "TOKEN_NOT_YET_VALID",
+      "Sign-In With NEAR message is not valid yet.",
+      { details: { notBefore: parsed.notBefore } },
+    );
+  }
+  return parsed;
+}
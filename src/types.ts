@@ -1,3 +1,11 @@
+import type {
+  AuthTokenEncoding,
+  AuthTokenVersion,
+} from "./auth/tokenFormat.js";
+import type { SignInMessage } from "./siwn/message.js";
+import type { NearAuthError, NearAuthErrorCode } from "./errors.js";
+import type { NearAuthData } from "./schemas.js";
+
 export { NearAuthData, SignedPayload } from "./schemas.js";
 
 /**
@@ -5,14 +13,15 @@ export { NearAuthData, SignedPayload } from "./schemas.js";
  */
 export interface SignOptions {
   /**
-   * The signer, which can be a NEAR KeyPair or a wallet object.
-   * The library will detect the type at runtime.
+   * The signer, which can be a NEAR KeyPair ("ed25519:..." or "secp256k1:..." secret key string),
+   * a wallet object, a Signer (e.g. backed by a KMS), or a WebCrypto Ed25519 CryptoKeyPair
+   * (whose private key may be non-extractable). The library will detect the type at runtime.
    */
-  signer: string | WalletInterface;
+  signer: string | WalletInterface | Signer | CryptoKeyPair;
   /**
    * The NEAR account ID of the intended signer.
-   * Required if `signer` is a KeyPair. Ignored if `signer` is a wallet
-   * (as the wallet will provide the accountId).
+   * Required if `signer` is a KeyPair or CryptoKeyPair, or a Signer without its own `accountId`.
+   * Ignored if `signer` is a wallet (as the wallet will provide the accountId).
    */
   accountId?: string;
   /**
@@ -29,12 +38,73 @@ export interface SignOptions {
    * This is recommended to help mitigate CSRF attacks.
    */
   state?: string;
+  /**
+   * Whether to bind `state` to the signed nonce, so that `verify` can detect an altered state.
+   * Defaults to true when `state` is provided without a `nonce`.
+   * Cannot be used with a caller-supplied `nonce` (use `bindStateToNonce` on it instead).
+   */
+  bindState?: boolean;
   /**
    * Optional callback URL string.
    * If provided, this URL will receive a call after the signing process with the accountId, publicKey, signature, and state
    * <callbackUrl>#accountId=<accountId>&publicKey=<publicKey>&signature=<signature>&state=<state>.
    */
   callbackUrl?: string;
+  /**
+   * Optional storage for wallets that redirect to `callbackUrl` instead of returning a signature.
+   * If provided with a wallet signer and `callbackUrl`, the pending request (message, nonce,
+   * recipient, state) is saved before the wallet is called, so that `completeRedirectSign`
+   * can build the auth token on the callback page.
+   */
+  pendingSignRequestStorage?: PendingSignRequestStorage;
+  /**
+   * Format version of the produced token. Defaults to 0 (unversioned), which servers on
+   * every release accept, or to 1 with `expiresIn` or `notBefore`. Use 1 once servers
+   * accept versioned tokens, or 2 for compact tokens, which store the public key and
+   * signature as raw bytes.
+   */
+  tokenVersion?: AuthTokenVersion;
+  /**
+   * Text encoding of the produced token. Defaults to "base64".
+   * Use "base64url" for tokens passed in query strings or links; `verify` accepts either.
+   */
+  tokenEncoding?: AuthTokenEncoding;
+  /**
+   * How long the token is valid for, in milliseconds from signing.
+   * Covered by the signature, and enforced by `verify` in addition to `nonceMaxAge`.
+   * Cannot be used with a caller-supplied `nonce`.
+   */
+  expiresIn?: number;
+  /**
+   * Time before which the token is rejected, in ms since epoch.
+   * Covered by the signature. Cannot be used with a caller-supplied `nonce`.
+   */
+  notBefore?: number;
+}
+
+/**
+ * Signs with a key held elsewhere (e.g., a KMS or HSM), so that the secret key
+ * never has to be in process memory. See `createKeyPairSigner` for an in-memory implementation.
+ */
+export interface Signer {
+  /** The NEAR account the key belongs to. Used if `sign` is not given an `accountId`. */
+  accountId?: string;
+  /** The NEAR public key string of the key (e.g., "ed25519:..." or "secp256k1:..."). */
+  getPublicKey(): string | Promise<string>;
+  /**
+   * Sign the 32-byte NEP-413 payload hash.
+   * Must return a raw ed25519 signature (64 bytes) or secp256k1 signature (65 bytes, r || s || recovery id).
+   */
+  signBytes(hash: Uint8Array): Uint8Array | Promise<Uint8Array>;
+}
+
+/**
+ * Client storage for a pending sign request, e.g. `window.localStorage` or `window.sessionStorage`.
+ */
+export interface PendingSignRequestStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
 }
 
 /**
@@ -52,11 +122,15 @@ type NonceValidationOptions =
     }
   | {
       /**
-       * A custom function to validate the nonce.
-       * Should return true if the nonce is valid, false otherwise.
+       * A custom function to validate the nonce, e.g. against nonces issued by your backend.
+       * Should return (or resolve to) true if the nonce is valid, false otherwise.
+       * Receives the full parsed token as `context`.
        * This option is mutually exclusive with `nonceMaxAge`.
        */
-      validateNonce: (nonce: Uint8Array) => boolean;
+      validateNonce: (
+        nonce: Uint8Array,
+        context: NearAuthData,
+      ) => boolean | Promise<boolean>;
       nonceMaxAge?: never; // Ensures nonceMaxAge is not provided with validateNonce
     };
 
@@ -76,10 +150,14 @@ type RecipientValidationOptions =
   | {
       /**
        * A custom function to validate the recipient.
-       * Should return true if the recipient is valid, false otherwise.
+       * Should return (or resolve to) true if the recipient is valid, false otherwise.
+       * Receives the full parsed token as `context`.
        * This option is mutually exclusive with `expectedRecipient`.
        */
-      validateRecipient: (recipient: string) => boolean;
+      validateRecipient: (
+        recipient: string,
+        context: NearAuthData,
+      ) => boolean | Promise<boolean>;
       expectedRecipient?: never; // Ensures expectedRecipient is not provided with validateRecipient
     };
 
@@ -97,11 +175,15 @@ type StateValidationOptions =
     }
   | {
       /**
-       * A custom function to validate the state.
-       * Should return true if the state is valid, false otherwise.
+       * A custom function to validate the state, e.g. against the session it was issued to.
+       * Should return (or resolve to) true if the state is valid, false otherwise.
+       * Receives the full parsed token as `context`, so the state can be matched to `context.accountId`.
        * This option is mutually exclusive with `expectedState`.
        */
-      validateState: (state?: string) => boolean;
+      validateState: (
+        state: string | undefined,
+        context: NearAuthData,
+      ) => boolean | Promise<boolean>;
       expectedState?: never; // Ensures expectedState is not provided with validateState
     };
 
@@ -120,30 +202,220 @@ type MessageValidationOptions =
   | {
       /**
        * A custom function to validate the message.
-       * Should return true if the message is valid, false otherwise.
+       * Should return (or resolve to) true if the message is valid, false otherwise.
+       * Receives the full parsed token as `context`.
        * This option is mutually exclusive with `expectedMessage`.
        */
-      validateMessage: (message: string) => boolean;
+      validateMessage: (
+        message: string,
+        context: NearAuthData,
+      ) => boolean | Promise<boolean>;
       expectedMessage?: never; // Ensures expectedMessage is not provided with validateMessage
     };
 
+/**
+ * The permission attached to an access key, as reported by a `KeyResolver`.
+ */
+export type AccessKeyPermission =
+  | { type: "FullAccess" }
+  | {
+      type: "FunctionCall";
+      /** The contract the key may call, if known to the resolver. */
+      receiverId?: string;
+      /** The methods the key may call (empty means any method), if known to the resolver. */
+      methodNames?: string[];
+    };
+
+/**
+ * An access key and its permission.
+ */
+export interface AccessKeyInfo {
+  /** The public key string (e.g., "ed25519:..."). */
+  publicKey: string;
+  permission: AccessKeyPermission;
+}
+
+/**
+ * Context passed to a `KeyResolver` for a single lookup.
+ */
+export interface KeyLookupContext {
+  /**
+   * Whether `verify` will only accept a Full Access Key.
+   * Resolvers may use this to skip work that cannot change the outcome.
+   */
+  requireFullAccessKey: boolean;
+}
+
+/**
+ * Answers which access keys belong to an account and what permissions they have.
+ * Implement this to verify key ownership against your own indexer, a database
+ * snapshot, or a local stand-in during tests.
+ */
+export interface KeyResolver {
+  /**
+   * Look up `publicKey` on `accountId`.
+   * Should resolve to the key's permission, or null if the key does not belong to the account.
+   * Should throw if the lookup itself could not be performed (network error, bad response).
+   */
+  resolveAccessKey(
+    accountId: string,
+    publicKey: string,
+    context: KeyLookupContext,
+  ): Promise<AccessKeyPermission | null>;
+  /**
+   * Optionally list every access key on `accountId`.
+   * Not used by `verify`, but useful for inspecting an account.
+   */
+  listAccessKeys?(accountId: string): Promise<AccessKeyInfo[]>;
+}
+
+/**
+ * A cached key ownership lookup. A null permission caches "key not on account".
+ */
+export interface OwnershipCacheEntry {
+  permission: AccessKeyPermission | null;
+}
+
+/**
+ * A store for key ownership lookups, keyed by network, account and public key.
+ * Implement this to back the cache with an external store (e.g., Redis);
+ * expiry of entries is up to the store.
+ */
+export interface OwnershipCache {
+  get(
+    key: string,
+  ): OwnershipCacheEntry | undefined | Promise<OwnershipCacheEntry | undefined>;
+  set(key: string, entry: OwnershipCacheEntry): void | Promise<void>;
+}
+
+/**
+ * Records which nonces have been used, for replay protection.
+ * Implement this to back replay protection with a shared store (e.g., Redis).
+ */
+export interface NonceStore {
+  /**
+   * Atomically mark the (accountId, nonce) pair as used, unless it already was.
+   * Should return (or resolve to) true if the pair was unseen, false if it was already used.
+   * The entry only needs to be kept until `expiresAt` (ms since epoch).
+   */
+  consume(
+    accountId: string,
+    nonce: Uint8Array,
+    expiresAt: number,
+  ): boolean | Promise<boolean>;
+}
+
+/**
+ * A NEAR network to verify key ownership against.
+ */
+export interface NetworkConfig {
+  /** Identifier reported in `VerificationResult.networkId` (e.g., "mainnet", "localnet"). */
+  networkId: string;
+  /** FastNEAR API base URL, if the network has one. */
+  fastnearUrl?: string;
+  /** NEAR JSON-RPC endpoint. Used when there is no `fastnearUrl`, and for Function Call Access Key permissions. */
+  rpcUrl?: string;
+  /**
+   * Whether a named account can belong to this network (implicit accounts always can).
+   * If not provided, every account is accepted.
+   */
+  isNetworkAccount?: (accountId: string) => boolean;
+}
+
 /**
  * Options for the main `verify` function.
  */
 export type VerifyOptions = {
+  /**
+   * The resolver used to check that the public key belongs to the account.
+   * Defaults to a FastNEAR resolver (see `createFastNearKeyResolver`).
+   */
+  keyResolver?: KeyResolver;
+  /**
+   * Optional store for replay protection (see `createMemoryNonceStore`).
+   * A token is rejected if its (accountId, nonce) pair was already used.
+   * The nonce is only consumed once every other check has passed.
+   */
+  nonceStore?: NonceStore;
+  /**
+   * Server secret used with `createChallenge`. If provided, the token's nonce and state
+   * must be an unexpired challenge issued with this secret for the token's recipient.
+   */
+  challengeSecret?: string | Uint8Array;
+  /**
+   * Accept tokens whose `state` is not bound to the signed nonce, such as tokens
+   * signed by earlier versions or with a caller-supplied nonce.
+   * Their state can be altered without invalidating the signature. Defaults to false.
+   * Has no effect on tokens without a state, or when `challengeSecret` is provided
+   * (a challenge's state is authenticated by the server's MAC).
+   */
+  allowUnboundState?: boolean;
+  /**
+   * Minimum accepted auth token format version. Defaults to 0 (every supported version).
+   * Raise it once all clients produce newer tokens.
+   */
+  minTokenVersion?: AuthTokenVersion;
+  /**
+   * Optional cache for key ownership lookups (see `createMemoryOwnershipCache`).
+   * Concurrent identical lookups are de-duplicated; failed lookups are never cached.
+   */
+  ownershipCache?: OwnershipCache;
+  /**
+   * The network the service runs on: "mainnet", "testnet", or a custom NetworkConfig
+   * (e.g., for localnet or a sandbox). Determines the default `keyResolver` endpoints.
+   * If not provided, testnet is used for `.testnet` accounts and mainnet otherwise.
+   */
+  network?: "mainnet" | "testnet" | NetworkConfig;
+  /**
+   * What to do with accounts that cannot belong to the configured `network`
+   * (e.g., a `.testnet` account on mainnet). Defaults to "reject".
+   * Only applies when `network` is provided.
+   */
+  accountNetworkPolicy?: "reject" | "allow";
+  /**
+   * How ownership of implicit accounts (64-character hex account IDs) is verified.
+   * - "allow" (default): if the account ID is the hex encoding of the token's public key,
+   *   ownership is verified locally without a network lookup; otherwise `keyResolver` is used.
+   * - "require": only accept implicit accounts verified locally. Verification is fully offline.
+   * - "forbid": always use `keyResolver`, e.g. to detect keys removed from an implicit account.
+   */
+  implicitAccountOwnership?: "allow" | "require" | "forbid";
   /**
    * Whether the public key used for signing must be a Full Access Key.
    * Defaults to true. If false, Function Call Access Keys are permitted
-   * provided they have permission for the `recipient`.
+   * provided their receiver is the token's `recipient`.
    *
    * Full access is highly recommended, otherwise ensure message, nonce, and state validation are enforced.
    */
   requireFullAccessKey?: boolean;
+  /**
+   * Method names a Function Call Access Key must be allowed to call.
+   * Only applies when `requireFullAccessKey` is false and the key is a Function Call Access Key.
+   * A key whose method list is empty may call any method.
+   */
+  requiredMethodNames?: string[];
+  /**
+   * Parse the message as a Sign-In With NEAR message (see `createSignInMessage`) and check it:
+   * its account must match the token's, and its network the `network` option if that is set.
+   * It must not be expired or not yet valid, and its domain and URI must match the given ones, if any.
+   * The parsed message is returned in `VerificationResult.signIn`.
+   */
+  signIn?: SignInVerifyOptions;
 } & NonceValidationOptions &
   RecipientValidationOptions &
   StateValidationOptions &
   MessageValidationOptions;
 
+/**
+ * Expected values of a Sign-In With NEAR message, typically taken from the request.
+ */
+export interface SignInVerifyOptions {
+  /** Expected domain, e.g. the request's `Host`. */
+  domain?: string;
+  /** Expected URI. */
+  uri?: string;
+}
+
 /**
  * The result of a successful verification.
  */
@@ -152,14 +424,60 @@ export interface VerificationResult {
   accountId: string;
   /** The parsed message from the verified token. */
   message: string;
+  /** The recipient the token was signed for. */
+  recipient: string;
   /** The public key string used for the signature. */
   publicKey: string;
+  /** The ID of the network that key ownership was verified on. */
+  networkId: string;
+  /** The permission of the access key used for the signature. */
+  keyPermission: AccessKeyPermission;
+  /**
+   * How key ownership was established: locally for an implicit account,
+   * from `ownershipCache`, or by a `keyResolver` lookup.
+   */
+  ownershipSource: "implicit" | "cache" | "resolver";
   /** The callback URL from the token, if present. */
   callbackUrl?: string;
   /** The state from the token, if present. */
   state?: string;
+  /** The format version of the token (0 for unversioned tokens). */
+  tokenVersion: AuthTokenVersion;
+  /** The signed expiry of the token, in ms since epoch, if it has one. */
+  expiresAt?: number;
+  /** The signed start of the token's validity, in ms since epoch, if it has one. */
+  notBefore?: number;
+  /** The parsed Sign-In With NEAR message, if `signIn` was provided. */
+  signIn?: SignInMessage;
 }
 
+/**
+ * The result of `safeVerify`, which never throws.
+ */
+export type SafeVerifyResult =
+  | { ok: true; result: VerificationResult }
+  | {
+      ok: false;
+      /** The failure, as a NearAuthError. */
+      error: NearAuthError;
+      /** Machine-readable reason, same as `error.code`. */
+      reason: NearAuthErrorCode;
+      /**
+       * "authentication" if the token was rejected, "infrastructure" if it could not be
+       * verified (e.g., the ownership lookup failed) and the request may be retried,
+       * "configuration" if the verify options are invalid (e.g., an unknown network).
+       */
+      kind: "authentication" | "infrastructure" | "configuration";
+    };
+
+/**
+ * Options for `verifyBatch`: the `verify` options applied to every token, plus concurrency.
+ */
+export type VerifyBatchOptions = VerifyOptions & {
+  /** Maximum number of concurrent ownership lookups and custom validator calls. Defaults to 8. */
+  concurrency?: number;
+};
+
 /** NEP-413: Parameters for the wallet's signMessage method. */
 export interface SignMessageParams {
   message: string; // The message that wants to be transmitted (must be string for NEP-413 payload).
@@ -172,8 +490,8 @@ export interface SignMessageParams {
 /** NEP-413: Output from the wallet's signMessage method. */
 export interface SignedMessage {
   accountId: string; // The account name to which the publicKey corresponds as plain text (e.g. "alice.near")
-  publicKey: string; // Public key used for signing ("ed25519:<bs58>").
-  signature: string; // Base64 representation of the raw Ed25519 signature.
+  publicKey: string; // Public key used for signing ("ed25519:<bs58>" or "secp256k1:<bs58>").
+  signature: string; // Base64 representation of the raw signature.
   state?: string; // Optional state passed through, from SignMessageParams.
 }
 
@@ -15,3 +15,16 @@ export function stringToUint8Array(str: string): Uint8Array {
 export function uint8ArrayToString(arr: Uint8Array): string {
   return new TextDecoder().decode(arr);
 }
+
+/**
+ * Compare two byte arrays in constant time (for equal lengths)
+ * @param a First array
+ * @param b Second array
+ * @returns True if the arrays are equal
+ */
+export function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+}
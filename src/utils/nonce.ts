@@ -1,8 +1,10 @@
+import { NonceValidationError } from "../errors.js";
+
 /**
  * Default max age for nonce validation (24 hours in milliseconds)
  */
 
-const DEFAULT_MAX_AGE = 24 * 60 * 60 * 1000;
+export const DEFAULT_MAX_AGE = 24 * 60 * 60 * 1000;
 
 /**
  * Generate a timestamp-based nonce
@@ -28,7 +30,7 @@ export function generateNonce(): Uint8Array {
  * Validate a nonce
  * @param nonce Nonce as Uint8Array
  * @param maxAge Maximum age of nonce in milliseconds (defaults to 24 hours)
- * @throws Error if nonce is invalid
+ * @throws NonceValidationError if nonce is invalid
  */
 export function validateNonce(
   nonce: Uint8Array,
@@ -37,7 +39,9 @@ export function validateNonce(
   try {
     // Check nonce length
     if (nonce.length !== 32) {
-      throw new Error("Invalid nonce length");
+      throw new NonceValidationError("NONCE_INVALID", "Invalid nonce length", {
+        details: { length: nonce.length },
+      });
     }
 
     // Extract timestamp from first 16 bytes of nonce
@@ -47,21 +51,34 @@ export function validateNonce(
     const timestamp = parseInt(timestampStr, 10);
 
     if (isNaN(timestamp)) {
-      throw new Error("Invalid timestamp in nonce");
+      throw new NonceValidationError(
+        "NONCE_INVALID",
+        "Invalid timestamp in nonce",
+      );
     }
 
     // Check if nonce is expired or from the future
     const age = Date.now() - timestamp;
     if (age < 0) {
-      throw new Error("Nonce timestamp is in the future");
+      throw new NonceValidationError(
+        "NONCE_IN_FUTURE",
+        "Nonce timestamp is in the future",
+        { details: { timestamp } },
+      );
     }
     if (age > maxAge) {
-      throw new Error("Nonce has expired");
+      throw new NonceValidationError("NONCE_EXPIRED", "Nonce has expired", {
+        details: { timestamp, maxAge },
+      });
     }
   } catch (error) {
     if (error instanceof Error) {
       throw error;
     }
-    throw new Error("Unknown error validating nonce");
+    throw new NonceValidationError(
+      "NONCE_INVALID",
+      "Unknown error validating nonce",
+      { cause: error },
+    );
   }
 }
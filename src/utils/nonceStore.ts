@@ -0,0 +1,44 @@
+import { hex } from "@scure/base";
+import type { NonceStore } from "../types.js";
+
+/** How often expired entries are swept from the in-memory store. */
+const SWEEP_INTERVAL = 60 * 1000;
+
+/**
+ * Create an in-memory NonceStore.
+ * Entries are kept until the expiry passed to `consume` (derived from `nonceMaxAge`),
+ * after which a replayed token is rejected by nonce validation instead.
+ * Suitable for a single process; use a shared store (e.g., Redis `SET NX PXAT`) across instances.
+ * @returns A NonceStore.
+ */
+export function createMemoryNonceStore(): NonceStore & { size(): number } {
+  const used = new Map<string, number>(); // key -> expiresAt
+  let nextSweep = 0;
+
+  function sweep(now: number): void {
+    if (now < nextSweep) return;
+    for (const [key, expiresAt] of used) {
+      if (expiresAt <= now) used.delete(key);
+    }
+    nextSweep = now + SWEEP_INTERVAL;
+  }
+
+  return {
+    consume(accountId, nonce, expiresAt) {
+      const now = Date.now();
+      sweep(now);
+
+      const key = `${accountId}:${hex.encode(nonce)}`;
+      const existing = used.get(key);
+      if (existing !== undefined && existing > now) {
+        return false;
+      }
+      used.set(key, expiresAt);
+      return true;
+    },
+
+    size() {
+      return used.size;
+    },
+  };
+}
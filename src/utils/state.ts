@@ -0,0 +1,193 @@
+import { sha256 } from "@noble/hashes/sha2.js";
+import type { TokenValidity } from "../auth/tokenFormat.js";
+import { TokenValiditySchema } from "../schemas.js";
+import { equalBytes } from "./encoding.js";
+
+const STATE_BINDING_DOMAIN = "near-sign-verify:state:v1";
+const VALIDITY_BINDING_DOMAIN = "near-sign-verify:validity:v2";
+
+/** Bytes of the nonce kept as-is: the 16-byte timestamp and a 4-byte random salt. */
+const NONCE_PREFIX_LENGTH = 20;
+
+/**
+ * A validity-bound nonce pads its timestamp with spaces instead of zeros, so that a token
+ * stripped of its validity period is detected. `validateNonce` (like `parseInt`) skips
+ * leading spaces, so the timestamp reads the same.
+ */
+const TIMESTAMP_LENGTH = 16;
+const ZERO = 0x30;
+const SPACE = 0x20;
+const VALIDITY_BOUND_TIMESTAMP = /^ +\d+$/;
+
+function computeCommitment(
+  domainName: string,
+  noncePrefix: Uint8Array,
+  bound: Uint8Array,
+): Uint8Array {
+  const domain = new TextEncoder().encode(domainName);
+  const data = new Uint8Array(
+    domain.length + noncePrefix.length + bound.length,
+  );
+  data.set(domain, 0);
+  data.set(noncePrefix, domain.length);
+  data.set(bound, domain.length + noncePrefix.length);
+  return sha256(data);
+}
+
+function computeStateCommitment(
+  noncePrefix: Uint8Array,
+  state: string,
+): Uint8Array {
+  return computeCommitment(
+    STATE_BINDING_DOMAIN,
+    noncePrefix,
+    new TextEncoder().encode(state),
+  ).slice(0, 32 - NONCE_PREFIX_LENGTH);
+}
+
+function computeValidityCommitment(
+  noncePrefix: Uint8Array,
+  validity: TokenValidity,
+  state: string | null | undefined,
+): Uint8Array {
+  const period = TokenValiditySchema.serialize({
+    expiresAt: BigInt(validity.expiresAt ?? 0),
+    notBefore: BigInt(validity.notBefore ?? 0),
+  });
+  const stateBytes = new TextEncoder().encode(state ?? "");
+  const bound = new Uint8Array(period.length + stateBytes.length);
+  bound.set(period, 0);
+  bound.set(stateBytes, period.length);
+  return computeCommitment(VALIDITY_BINDING_DOMAIN, noncePrefix, bound).slice(
+    0,
+    32 - NONCE_PREFIX_LENGTH,
+  );
+}
+
+/**
+ * Replace the zero padding of a nonce's timestamp with spaces, to mark it validity-bound.
+ * @throws Error if the timestamp has no zero padding
+ */
+function markValidityBound(nonce: Uint8Array): Uint8Array {
+  if (nonce.length !== 32) {
+    throw new Error(`Expected a 32-byte nonce, got ${nonce.length} bytes.`);
+  }
+  if (nonce[0] !== ZERO) {
+    throw new Error(
+      "Cannot bind a validity period to a nonce whose timestamp is not zero-padded.",
+    );
+  }
+  const marked = nonce.slice();
+  for (let i = 0; i < TIMESTAMP_LENGTH && marked[i] === ZERO; i++) {
+    marked[i] = SPACE;
+  }
+  return marked;
+}
+
+function withCommitment(
+  nonce: Uint8Array,
+  commitment: (noncePrefix: Uint8Array) => Uint8Array,
+): Uint8Array {
+  if (nonce.length !== 32) {
+    throw new Error(`Expected a 32-byte nonce, got ${nonce.length} bytes.`);
+  }
+  const bound = new Uint8Array(32);
+  bound.set(nonce.subarray(0, NONCE_PREFIX_LENGTH), 0);
+  bound.set(
+    commitment(nonce.subarray(0, NONCE_PREFIX_LENGTH)),
+    NONCE_PREFIX_LENGTH,
+  );
+  return bound;
+}
+
+function hasCommitment(
+  nonce: Uint8Array,
+  commitment: (noncePrefix: Uint8Array) => Uint8Array,
+): boolean {
+  if (nonce.length !== 32) {
+    return false;
+  }
+  return equalBytes(
+    commitment(nonce.subarray(0, NONCE_PREFIX_LENGTH)),
+    nonce.subarray(NONCE_PREFIX_LENGTH),
+  );
+}
+
+/**
+ * Bind a state to a nonce, so that the state is covered by the signature over the nonce.
+ * The last 12 bytes of the nonce are replaced with a commitment to its first 20 bytes
+ * (timestamp and salt) and the state.
+ * @param nonce A 32-byte nonce, e.g. from `generateNonce`.
+ * @param state The state to bind.
+ * @returns A new 32-byte nonce, still valid for `validateNonce`.
+ */
+export function bindStateToNonce(nonce: Uint8Array, state: string): Uint8Array {
+  return withCommitment(nonce, (prefix) =>
+    computeStateCommitment(prefix, state),
+  );
+}
+
+/**
+ * Check whether a state is bound to a nonce (see `bindStateToNonce`).
+ * @param nonce The signed nonce.
+ * @param state The state from the token.
+ * @returns True if the nonce commits to exactly this state.
+ */
+export function isStateBoundToNonce(nonce: Uint8Array, state: string): boolean {
+  return hasCommitment(nonce, (prefix) =>
+    computeStateCommitment(prefix, state),
+  );
+}
+
+/**
+ * Bind a validity period, and the state if any, to a nonce, so that both are covered
+ * by the signature over the nonce. Replaces state binding: the nonce commits to the state too.
+ * The last 12 bytes of the nonce are replaced with a commitment to its first 20 bytes,
+ * the period and the state, and the timestamp's zero padding with spaces (see `hasBoundValidity`).
+ * @param nonce A 32-byte nonce with a zero-padded timestamp, e.g. from `generateNonce`.
+ * @param validity The `expiresAt` and `notBefore` of the token.
+ * @param state The state of the token, if any.
+ * @returns A new 32-byte nonce, still valid for `validateNonce`.
+ */
+export function bindValidityToNonce(
+  nonce: Uint8Array,
+  validity: TokenValidity,
+  state?: string | null,
+): Uint8Array {
+  return withCommitment(markValidityBound(nonce), (prefix) =>
+    computeValidityCommitment(prefix, validity, state),
+  );
+}
+
+/**
+ * Check whether a nonce was bound to some validity period with `bindValidityToNonce`,
+ * so that a token signed over it must carry that period.
+ * @param nonce The signed nonce.
+ * @returns True if the nonce's timestamp is a decimal padded with spaces. Caller-supplied
+ * nonces that merely start with a space (e.g. random bytes) are not treated as bound.
+ */
+export function hasBoundValidity(nonce: Uint8Array): boolean {
+  return (
+    nonce.length === 32 &&
+    VALIDITY_BOUND_TIMESTAMP.test(
+      String.fromCharCode(...nonce.subarray(0, TIMESTAMP_LENGTH)),
+    )
+  );
+}
+
+/**
+ * Check whether a validity period and state are bound to a nonce (see `bindValidityToNonce`).
+ * @param nonce The signed nonce.
+ * @param validity The validity period from the token.
+ * @param state The state from the token, if any.
+ * @returns True if the nonce commits to exactly this validity period and state.
+ */
+export function isValidityBoundToNonce(
+  nonce: Uint8Array,
+  validity: TokenValidity,
+  state?: string | null,
+): boolean {
+  return hasCommitment(nonce, (prefix) =>
+    computeValidityCommitment(prefix, validity, state),
+  );
+}
@@ -0,0 +1,163 @@
+import * as near from "near-api-js";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createChallenge, verifyChallenge } from "../../src/auth/challenge.js";
+import { sign } from "../../src/auth/sign.js";
+import { verify } from "../../src/auth/verify.js";
+import { validateNonce } from "../../src/utils/nonce.js";
+
+describe("challenge", () => {
+  const secret = "a-server-secret-of-at-least-32-bytes!";
+  const recipient = "your-service.near";
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("createChallenge", () => {
+    it("should issue a 32-byte timestamped nonce and a state with the expiry", () => {
+      vi.useFakeTimers({ now: 1_700_000_000_000 });
+
+      const challenge = createChallenge({ recipient, ttl: 60000, secret });
+
+      expect(challenge.nonce).toBeInstanceOf(Uint8Array);
+      expect(challenge.nonce.length).toBe(32);
+      expect(() => validateNonce(challenge.nonce)).not.toThrow();
+      expect(challenge.expiresAt).toBe(1_700_000_060_000);
+      expect(challenge.state.startsWith("1700000060000.")).toBe(true);
+      expect(challenge.recipient).toBe(recipient);
+    });
+
+    it("should issue unique challenges", () => {
+      const a = createChallenge({ recipient, ttl: 60000, secret });
+      const b = createChallenge({ recipient, ttl: 60000, secret });
+      expect(a.nonce).not.toEqual(b.nonce);
+      expect(a.state).not.toBe(b.state);
+    });
+  });
+
+  describe("verifyChallenge", () => {
+    it("should accept a challenge issued with the same secret and recipient", () => {
+      const { nonce, state } = createChallenge({
+        recipient,
+        ttl: 60000,
+        secret,
+      });
+      expect(() =>
+        verifyChallenge({ nonce, state, recipient }, secret),
+      ).not.toThrow();
+    });
+
+    it("should accept a Uint8Array secret", () => {
+      const secretBytes = new Uint8Array(32).fill(9);
+      const { nonce, state } = createChallenge({
+        recipient,
+        ttl: 60000,
+        secret: secretBytes,
+      });
+      expect(() =>
+        verifyChallenge({ nonce, state, recipient }, secretBytes),
+      ).not.toThrow();
+    });
+
+    it("should reject a different secret, recipient or nonce", () => {
+      const { nonce, state } = createChallenge({
+        recipient,
+        ttl: 60000,
+        secret,
+      });
+      const otherNonce = nonce.slice();
+      otherNonce[31] ^= 1;
+
+      for (const [challenge, key] of [
+        [{ nonce, state, recipient }, "another-secret"],
+        [{ nonce, state, recipient: "evil.near" }, secret],
+        [{ nonce: otherNonce, state, recipient }, secret],
+      ] as const) {
+        expect(() => verifyChallenge(challenge, key)).toThrow(
+          expect.objectContaining({ code: "CHALLENGE_INVALID" }),
+        );
+      }
+    });
+
+    it("should reject a tampered expiry", () => {
+      const { nonce, state } = createChallenge({
+        recipient,
+        ttl: 60000,
+        secret,
+      });
+      const [expiresAt, mac] = state.split(".");
+      const extended = `${Number(expiresAt) + 3600000}.${mac}`;
+
+      expect(() =>
+        verifyChallenge({ nonce, state: extended, recipient }, secret),
+      ).toThrow(expect.objectContaining({ code: "CHALLENGE_INVALID" }));
+    });
+
+    it("should reject an expired challenge", () => {
+      vi.useFakeTimers({ now: 1_700_000_000_000 });
+      const { nonce, state } = createChallenge({
+        recipient,
+        ttl: 1000,
+        secret,
+      });
+      vi.setSystemTime(1_700_000_001_001);
+
+      expect(() =>
+        verifyChallenge({ nonce, state, recipient }, secret),
+      ).toThrow(expect.objectContaining({ code: "CHALLENGE_EXPIRED" }));
+    });
+
+    it("should reject a missing or malformed state", () => {
+      const { nonce } = createChallenge({ recipient, ttl: 60000, secret });
+      for (const state of [null, undefined, "", "not-a-challenge", "123.!!"]) {
+        expect(() =>
+          verifyChallenge({ nonce, state, recipient }, secret),
+        ).toThrow(
+          "Challenge verification failed: state is not a server challenge.",
+        );
+      }
+    });
+  });
+
+  describe("verify with challengeSecret", () => {
+    const keyPair = near.KeyPair.fromRandom("ed25519");
+    const keyResolver = {
+      resolveAccessKey: vi.fn().mockResolvedValue({ type: "FullAccess" }),
+    };
+
+    it("should verify a token signed over a server challenge", async () => {
+      const { nonce, state } = createChallenge({
+        recipient,
+        ttl: 60000,
+        secret,
+      });
+      const token = await sign("login", {
+        signer: keyPair.toString(),
+        accountId: "alice.near",
+        recipient,
+        nonce,
+        state,
+      });
+
+      const result = await verify(token, {
+        keyResolver,
+        challengeSecret: secret,
+      });
+      expect(result.accountId).toBe("alice.near");
+    });
+
+    it("should reject a token whose nonce was not issued by the server", async () => {
+      const { state } = createChallenge({ recipient, ttl: 60000, secret });
+      const token = await sign("login", {
+        signer: keyPair.toString(),
+        accountId: "alice.near",
+        recipient,
+        state,
+      });
+
+      await expect(
+        verify(token, { keyResolver, challengeSecret: secret }),
+      ).rejects.toThrow(expect.objectContaining({ code: "CHALLENGE_INVALID" }));
+    });
+  });
+});
@@ -30,7 +30,8 @@ describe("parseAuthToken", () => {
   });
 
   it("should throw an error for invalid token format", () => {
-    const invalidToken = "invalid-base64-data";
+    // "-" would make this valid base64url, so use standard-alphabet characters
+    const invalidToken = "invalid+base64+data";
 
     expect(() => parseAuthToken(invalidToken)).toThrow(
       "Invalid auth token: padding",
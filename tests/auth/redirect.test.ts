@@ -0,0 +1,247 @@
+import { ed25519 } from "@noble/curves/ed25519.js";
+import { base58, base64 } from "@scure/base";
+import { describe, expect, it, vi } from "vitest";
+import { parseAuthToken } from "../../src/auth/parseAuthToken.js";
+import {
+  completeRedirectSign,
+  DEFAULT_PENDING_SIGN_REQUEST_KEY,
+  loadPendingSignRequest,
+  parseCallbackFragment,
+  savePendingSignRequest,
+} from "../../src/auth/redirect.js";
+import { sign } from "../../src/auth/sign.js";
+import { verify } from "../../src/auth/verify.js";
+import { createNEP413Payload, hashPayload } from "../../src/crypto/crypto.js";
+import type {
+  PendingSignRequestStorage,
+  SignMessageParams,
+  WalletInterface,
+} from "../../src/types.js";
+
+function createMemoryStorage(): PendingSignRequestStorage & {
+  items: Map<string, string>;
+} {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: (key) => void items.delete(key),
+  };
+}
+
+describe("redirect flow", () => {
+  const callbackUrl = "https://app.example.com/callback";
+
+  describe("parseCallbackFragment", () => {
+    it("should parse the fields from a callback URL", () => {
+      expect(
+        parseCallbackFragment(
+          `${callbackUrl}#accountId=alice.near&publicKey=ed25519%3Aabc&signature=a%2Bb%2Fc%3D%3D&state=xyz`,
+        ),
+      ).toEqual({
+        accountId: "alice.near",
+        publicKey: "ed25519:abc",
+        signature: "a+b/c==",
+        state: "xyz",
+      });
+    });
+
+    it("should accept a bare fragment and keep a literal '+' in the signature", () => {
+      expect(
+        parseCallbackFragment(
+          "#accountId=alice.near&publicKey=ed25519:abc&signature=a+b/c==",
+        ),
+      ).toEqual({
+        accountId: "alice.near",
+        publicKey: "ed25519:abc",
+        signature: "a+b/c==",
+      });
+    });
+
+    it("should throw for missing fields", () => {
+      expect(() =>
+        parseCallbackFragment(`${callbackUrl}#accountId=alice.near`),
+      ).toThrow("Invalid callback fragment: missing publicKey, signature.");
+    });
+
+    it("should throw when the wallet reports an error", () => {
+      expect(() =>
+        parseCallbackFragment(
+          `${callbackUrl}#errorCode=userRejected&errorMessage=User%20rejected`,
+        ),
+      ).toThrow("Wallet returned an error: userRejected (User rejected)");
+    });
+  });
+
+  describe("pending sign request storage", () => {
+    it("should round-trip a pending request", () => {
+      const storage = createMemoryStorage();
+      const request = {
+        message: "login",
+        recipient: "app.near",
+        nonce: new Uint8Array(32).fill(7),
+        callbackUrl,
+        state: "s1",
+      };
+
+      savePendingSignRequest(storage, request);
+
+      expect(storage.items.has(DEFAULT_PENDING_SIGN_REQUEST_KEY)).toBe(true);
+      expect(loadPendingSignRequest(storage)).toEqual(request);
+    });
+
+    it("should round-trip a signed validity period", () => {
+      const storage = createMemoryStorage();
+      const request = {
+        message: "login",
+        recipient: "app.near",
+        nonce: new Uint8Array(32).fill(7),
+        callbackUrl,
+        expiresAt: 1_700_000_060_000,
+        notBefore: 1_700_000_000_000,
+      };
+
+      savePendingSignRequest(storage, request);
+
+      expect(loadPendingSignRequest(storage)).toMatchObject({
+        expiresAt: 1_700_000_060_000,
+        notBefore: 1_700_000_000_000,
+      });
+    });
+
+    it("should return null when nothing is pending", () => {
+      expect(loadPendingSignRequest(createMemoryStorage())).toBeNull();
+    });
+
+    it("should throw for a malformed pending request", () => {
+      const storage = createMemoryStorage();
+      storage.setItem(DEFAULT_PENDING_SIGN_REQUEST_KEY, "{");
+      expect(() => loadPendingSignRequest(storage)).toThrow(
+        "Pending sign request is not valid JSON.",
+      );
+
+      storage.setItem(
+        DEFAULT_PENDING_SIGN_REQUEST_KEY,
+        JSON.stringify({ message: "login", nonce: [1, 2] }),
+      );
+      expect(() => loadPendingSignRequest(storage)).toThrow(
+        "Pending sign request is malformed.",
+      );
+
+      for (const stored of ["null", "[]"]) {
+        storage.setItem(DEFAULT_PENDING_SIGN_REQUEST_KEY, stored);
+        expect(() => loadPendingSignRequest(storage)).toThrow(
+          "Pending sign request is malformed.",
+        );
+      }
+
+      storage.setItem(
+        DEFAULT_PENDING_SIGN_REQUEST_KEY,
+        JSON.stringify({
+          message: "login",
+          recipient: "app.near",
+          callbackUrl: "https://app.example.com/callback",
+          nonce: new Array(32).fill(256),
+        }),
+      );
+      expect(() => loadPendingSignRequest(storage)).toThrow(
+        "Pending sign request is malformed.",
+      );
+    });
+  });
+
+  describe("completeRedirectSign", () => {
+    const seed = ed25519.utils.randomSecretKey();
+    const publicKey = `ed25519:${base58.encode(ed25519.getPublicKey(seed))}`;
+
+    // Signs like a redirect wallet and returns the URL it would redirect to.
+    const walletRedirect = (params: SignMessageParams) => {
+      const payloadHash = hashPayload(
+        createNEP413Payload({
+          message: params.message,
+          nonce: Array.from(params.nonce),
+          recipient: params.recipient,
+          callbackUrl: params.callbackUrl ?? null,
+        }),
+      );
+      const signature = base64.encode(ed25519.sign(payloadHash, seed));
+      const fragment = [
+        `accountId=alice.near`,
+        `publicKey=${encodeURIComponent(publicKey)}`,
+        `signature=${encodeURIComponent(signature)}`,
+        ...(params.state ? [`state=${encodeURIComponent(params.state)}`] : []),
+      ].join("&");
+      return `${params.callbackUrl}#${fragment}`;
+    };
+
+    it("should build a verifiable token from the callback and the pending request", async () => {
+      const storage = createMemoryStorage();
+      let redirectUrl = "";
+      const wallet: WalletInterface = {
+        signMessage: vi.fn(async (params: SignMessageParams) => {
+          redirectUrl = walletRedirect(params);
+          // The page navigates away, so the promise never settles.
+          return new Promise<never>(() => {});
+        }),
+      };
+
+      void sign("login", {
+        signer: wallet,
+        recipient: "app.near",
+        callbackUrl,
+        state: "csrf-1",
+        pendingSignRequestStorage: storage,
+      });
+      await vi.waitFor(() => expect(redirectUrl).not.toBe(""));
+
+      const token = completeRedirectSign(redirectUrl, { storage });
+
+      expect(storage.items.size).toBe(0);
+      expect(parseAuthToken(token)).toMatchObject({
+        accountId: "alice.near",
+        publicKey,
+        message: "login",
+        recipient: "app.near",
+        callbackUrl,
+        state: "csrf-1",
+      });
+      const result = await verify(token, {
+        keyResolver: {
+          resolveAccessKey: async () => ({ type: "FullAccess" }),
+        },
+        expectedState: "csrf-1",
+      });
+      expect(result.accountId).toBe("alice.near");
+    });
+
+    it("should reject a callback whose state differs from the pending request", () => {
+      const storage = createMemoryStorage();
+      savePendingSignRequest(storage, {
+        message: "login",
+        recipient: "app.near",
+        nonce: new Uint8Array(32),
+        callbackUrl,
+        state: "csrf-1",
+      });
+
+      expect(() =>
+        completeRedirectSign(
+          `${callbackUrl}#accountId=alice.near&publicKey=ed25519:abc&signature=c2ln&state=csrf-2`,
+          { storage },
+        ),
+      ).toThrow(
+        "State returned by the wallet does not match the pending sign request.",
+      );
+      expect(storage.items.size).toBe(1);
+    });
+
+    it("should throw when no request is pending", () => {
+      expect(() =>
+        completeRedirectSign(`${callbackUrl}#accountId=alice.near`, {
+          storage: createMemoryStorage(),
+        }),
+      ).toThrow("No pending sign request found in storage.");
+    });
+  });
+});
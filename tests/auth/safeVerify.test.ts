@@ -0,0 +1,105 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { safeVerify } from "../../src/auth/safeVerify.js";
+import * as verifyModule from "../../src/auth/verify.js";
+import {
+  KeyOwnershipError,
+  NearAuthError,
+  OwnershipLookupError,
+} from "../../src/errors.js";
+import type { VerificationResult } from "../../src/types.js";
+
+vi.mock("../../src/auth/verify.js");
+
+describe("safeVerify", () => {
+  const verificationResult: VerificationResult = {
+    accountId: "alice.near",
+    message: "hello",
+    publicKey: "ed25519:8hSHprDq2StXwMtNd43wDTXQYsjXcD4MJxUTvwtnmM4T",
+    networkId: "mainnet",
+    keyPermission: { type: "FullAccess" },
+    ownershipSource: "resolver",
+  };
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("should return ok with the verification result", async () => {
+    vi.mocked(verifyModule.verify).mockResolvedValue(verificationResult);
+
+    const options = { expectedRecipient: "app.near" };
+    const outcome = await safeVerify("token", options);
+
+    expect(outcome).toEqual({ ok: true, result: verificationResult });
+    expect(verifyModule.verify).toHaveBeenCalledWith("token", options);
+  });
+
+  it("should classify authentication failures", async () => {
+    const error = new KeyOwnershipError("KEY_NOT_OWNED", "not owned");
+    vi.mocked(verifyModule.verify).mockRejectedValue(error);
+
+    const outcome = await safeVerify("token");
+
+    expect(outcome).toEqual({
+      ok: false,
+      error,
+      reason: "KEY_NOT_OWNED",
+      kind: "authentication",
+    });
+  });
+
+  it("should classify ownership lookup failures as infrastructure", async () => {
+    vi.mocked(verifyModule.verify).mockRejectedValue(
+      new OwnershipLookupError("FastNEAR down"),
+    );
+
+    const outcome = await safeVerify("token");
+
+    expect(outcome.ok).toBe(false);
+    if (!outcome.ok) {
+      expect(outcome.reason).toBe("OWNERSHIP_LOOKUP_UNAVAILABLE");
+      expect(outcome.kind).toBe("infrastructure");
+    }
+  });
+
+  it("should classify invalid options as configuration errors", async () => {
+    vi.mocked(verifyModule.verify).mockRejectedValue(
+      new NearAuthError("CONFIGURATION_INVALID", 'Unknown network: "betanet".'),
+    );
+
+    const outcome = await safeVerify("token");
+
+    expect(outcome.ok).toBe(false);
+    if (!outcome.ok) {
+      expect(outcome.reason).toBe("CONFIGURATION_INVALID");
+      expect(outcome.kind).toBe("configuration");
+    }
+  });
+
+  it("should wrap unexpected errors without throwing", async () => {
+    const cause = new Error("database unavailable");
+    vi.mocked(verifyModule.verify).mockRejectedValue(cause);
+
+    const outcome = await safeVerify("token");
+
+    expect(outcome.ok).toBe(false);
+    if (!outcome.ok) {
+      expect(outcome.error).toBeInstanceOf(NearAuthError);
+      expect(outcome.error.message).toBe("database unavailable");
+      expect(outcome.error.cause).toBe(cause);
+      expect(outcome.reason).toBe("UNEXPECTED_ERROR");
+      expect(outcome.kind).toBe("infrastructure");
+    }
+  });
+
+  it("should wrap non-Error throwables", async () => {
+    vi.mocked(verifyModule.verify).mockRejectedValue("boom");
+
+    const outcome = await safeVerify("token");
+
+    expect(outcome.ok).toBe(false);
+    if (!outcome.ok) {
+      expect(outcome.error.message).toBe("boom");
+    }
+  });
+});
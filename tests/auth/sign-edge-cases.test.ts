@@ -1,10 +1,17 @@
 import { base58, base64 } from "@scure/base";
 import * as near from "near-api-js";
-import { describe, expect, it, vi } from "vitest";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createAuthToken } from "../../src/auth/createAuthToken.js";
+import {
+  decodeAuthToken,
+  parseAuthToken,
+} from "../../src/auth/parseAuthToken.js";
 import { verify } from "../../src/auth/verify.js";
 import { sign } from "../../src/auth/sign.js";
 import type { WalletInterface } from "../../src/types.js";
 import * as nonceModule from "../../src/utils/nonce.js";
+import { isStateBoundToNonce } from "../../src/utils/state.js";
+import { createKeyPairSigner } from "../../src/crypto/signer.js";
 
 describe("sign - Edge Cases", () => {
   it("should throw error when accountId is missing for KeyPair signer", async () => {
@@ -82,6 +89,80 @@ describe("sign - Edge Cases", () => {
     ).rejects.toThrow("Wallet signing failed");
   });
 
+  it("should forward callbackUrl and state to the wallet", async () => {
+    const mockWallet: WalletInterface = {
+      signMessage: vi.fn().mockResolvedValue({
+        signature: base64.encode(new Uint8Array(64)),
+        publicKey: "ed25519:8hSHprDq2StXwMtNd43wDTXQYsjXcD4MJxUTvwtnmM4T",
+        accountId: "wallet-provided.near",
+      }),
+    };
+
+    const token = await sign("hello", {
+      signer: mockWallet,
+      recipient: "recipient.near",
+      callbackUrl: "https://app.example.com/callback",
+      state: "csrf-token",
+    });
+
+    const params = (mockWallet.signMessage as ReturnType<typeof vi.fn>).mock
+      .calls[0][0];
+    expect(params).toMatchObject({
+      message: "hello",
+      recipient: "recipient.near",
+      callbackUrl: "https://app.example.com/callback",
+      state: "csrf-token",
+    });
+    expect(Array.from(params.nonce)).toEqual(parseAuthToken(token).nonce);
+    expect(parseAuthToken(token)).toMatchObject({
+      callbackUrl: "https://app.example.com/callback",
+      state: "csrf-token",
+    });
+  });
+
+  it("should throw if the wallet returns a different state", async () => {
+    const mockWallet: WalletInterface = {
+      signMessage: vi.fn().mockResolvedValue({
+        signature: base64.encode(new Uint8Array(64)),
+        publicKey: "ed25519:8hSHprDq2StXwMtNd43wDTXQYsjXcD4MJxUTvwtnmM4T",
+        accountId: "wallet-provided.near",
+        state: "other-state",
+      }),
+    };
+
+    for (const state of ["csrf-token", undefined]) {
+      await expect(
+        sign("hello", {
+          signer: mockWallet,
+          recipient: "recipient.near",
+          state,
+        }),
+      ).rejects.toThrow(
+        "State returned by the wallet does not match the requested state.",
+      );
+    }
+  });
+
+  it("should not pass callbackUrl or state to the wallet when they are not set", async () => {
+    const mockWallet: WalletInterface = {
+      signMessage: vi.fn().mockResolvedValue({
+        signature: base64.encode(new Uint8Array(64)),
+        publicKey: "ed25519:8hSHprDq2StXwMtNd43wDTXQYsjXcD4MJxUTvwtnmM4T",
+        accountId: "wallet-provided.near",
+      }),
+    };
+
+    await sign("hello", { signer: mockWallet, recipient: "recipient.near" });
+
+    const params = (mockWallet.signMessage as ReturnType<typeof vi.fn>).mock
+      .calls[0][0];
+    expect(Object.keys(params).sort()).toEqual([
+      "message",
+      "nonce",
+      "recipient",
+    ]);
+  });
+
   it("should handle KeyPair signing errors (e.g., malformed key string)", async () => {
     const malformedKeyPairString =
       "ed25519:ThisIsNotValidBase58AndWillCauseAnErrorDuringDecoding!!!";
@@ -141,4 +222,386 @@ describe("sign - Edge Cases", () => {
       expect(errorMessage).not.toContain(`Expected "ed25519:`);
     }
   });
+
+  it("should sign and verify with a secp256k1 KeyPair", async () => {
+    const keyPair = near.KeyPair.fromRandom("secp256k1");
+    const keyResolver = {
+      resolveAccessKey: vi.fn().mockResolvedValue({ type: "FullAccess" }),
+    };
+
+    const token = await sign("hello", {
+      signer: keyPair.toString(),
+      accountId: "test.near",
+      recipient: "recipient.near",
+    });
+
+    const authData = parseAuthToken(token);
+    expect(authData.publicKey).toBe(keyPair.getPublicKey().toString());
+    expect(base64.decode(authData.signature).length).toBe(65);
+
+    const result = await verify(token, { keyResolver });
+    expect(result.publicKey).toBe(keyPair.getPublicKey().toString());
+    expect(keyResolver.resolveAccessKey).toHaveBeenCalledWith(
+      "test.near",
+      keyPair.getPublicKey().toString(),
+      { requireFullAccessKey: true },
+    );
+  });
+
+  it("should sign and verify compact (v2) tokens", async () => {
+    const keyPair = near.KeyPair.fromRandom("ed25519");
+    const keyResolver = {
+      resolveAccessKey: vi.fn().mockResolvedValue({ type: "FullAccess" }),
+    };
+    const options = {
+      signer: keyPair.toString(),
+      accountId: "test.near",
+      recipient: "recipient.near",
+      nonce: new Uint8Array(32),
+    };
+
+    const compact = await sign("hello", { ...options, tokenVersion: 2 });
+    const regular = await sign("hello", options);
+
+    expect(compact.length).toBeLessThan(regular.length);
+    expect(parseAuthToken(compact)).toEqual(parseAuthToken(regular));
+
+    const result = await verify(compact, {
+      keyResolver,
+      validateNonce: () => true,
+    });
+    expect(result.tokenVersion).toBe(2);
+    expect(result.publicKey).toBe(keyPair.getPublicKey().toString());
+  });
+
+  it("should sign and verify base64url tokens", async () => {
+    const keyPair = near.KeyPair.fromRandom("ed25519");
+    const keyResolver = {
+      resolveAccessKey: vi.fn().mockResolvedValue({ type: "FullAccess" }),
+    };
+
+    const token = await sign("hello", {
+      signer: keyPair.toString(),
+      accountId: "test.near",
+      recipient: "recipient.near",
+      tokenEncoding: "base64url",
+    });
+
+    expect(token).toMatch(/^[A-Za-z0-9_-]+$/);
+    const result = await verify(token, { keyResolver });
+    expect(result.accountId).toBe("test.near");
+  });
+
+  describe("Signer", () => {
+    const keyPair = near.KeyPair.fromRandom("ed25519");
+    const keyResolver = {
+      resolveAccessKey: vi.fn().mockResolvedValue({ type: "FullAccess" }),
+    };
+
+    // Stands in for a KMS: async, and never exposes the secret key.
+    const createKmsSigner = (accountId?: string) => {
+      const local = createKeyPairSigner(keyPair.toString());
+      return {
+        accountId,
+        getPublicKey: vi.fn(async () => local.getPublicKey()),
+        signBytes: vi.fn(async (hash: Uint8Array) => local.signBytes(hash)),
+      };
+    };
+
+    it("should sign with an async Signer and its accountId", async () => {
+      const signer = createKmsSigner("kms.near");
+
+      const token = await sign("hello", {
+        signer,
+        recipient: "recipient.near",
+      });
+
+      expect(signer.signBytes).toHaveBeenCalledTimes(1);
+      expect(signer.signBytes.mock.calls[0][0].length).toBe(32);
+      const result = await verify(token, { keyResolver });
+      expect(result.accountId).toBe("kms.near");
+      expect(result.publicKey).toBe(keyPair.getPublicKey().toString());
+    });
+
+    it("should prefer the accountId option over the Signer's", async () => {
+      const token = await sign("hello", {
+        signer: createKmsSigner("kms.near"),
+        accountId: "other.near",
+        recipient: "recipient.near",
+      });
+
+      expect(parseAuthToken(token).accountId).toBe("other.near");
+    });
+
+    it("should require an accountId", async () => {
+      await expect(
+        sign("hello", {
+          signer: createKmsSigner(),
+          recipient: "recipient.near",
+        }),
+      ).rejects.toThrow(
+        "accountId is required when the Signer does not provide one.",
+      );
+    });
+
+    it("should propagate Signer errors", async () => {
+      const signer = createKmsSigner("kms.near");
+      signer.signBytes.mockRejectedValueOnce(new Error("KMS unavailable"));
+
+      await expect(
+        sign("hello", { signer, recipient: "recipient.near" }),
+      ).rejects.toThrow("KMS unavailable");
+    });
+  });
+
+  describe("WebCrypto CryptoKeyPair", () => {
+    it("should sign with a non-extractable Ed25519 key and verify", async () => {
+      const keyPair = (await crypto.subtle.generateKey(
+        { name: "Ed25519" },
+        false,
+        ["sign", "verify"],
+      )) as CryptoKeyPair;
+      const keyResolver = {
+        resolveAccessKey: vi.fn().mockResolvedValue({ type: "FullAccess" }),
+      };
+
+      const token = await sign("hello", {
+        signer: keyPair,
+        accountId: "session.near",
+        recipient: "recipient.near",
+      });
+
+      const result = await verify(token, { keyResolver });
+      expect(result.accountId).toBe("session.near");
+      expect(result.publicKey).toMatch(/^ed25519:/);
+    });
+
+    it("should require an accountId", async () => {
+      const keyPair = (await crypto.subtle.generateKey(
+        { name: "Ed25519" },
+        false,
+        ["sign", "verify"],
+      )) as CryptoKeyPair;
+
+      await expect(
+        sign("hello", { signer: keyPair, recipient: "recipient.near" }),
+      ).rejects.toThrow(
+        "accountId is required when using a CryptoKeyPair signer.",
+      );
+    });
+  });
+
+  describe("validity period", () => {
+    const keyResolver = {
+      resolveAccessKey: vi.fn().mockResolvedValue({ type: "FullAccess" }),
+    };
+    const signWithValidity = (options: {
+      expiresIn?: number;
+      notBefore?: number;
+      state?: string;
+    }) =>
+      sign("hello", {
+        signer: near.KeyPair.fromRandom("ed25519").toString(),
+        accountId: "test.near",
+        recipient: "recipient.near",
+        ...options,
+      });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should sign expiresIn and notBefore and return them from verify", async () => {
+      vi.useFakeTimers({ now: 1_700_000_000_000, toFake: ["Date"] });
+      const token = await signWithValidity({
+        expiresIn: 60_000,
+        notBefore: 1_700_000_000_000,
+        state: "csrf-1",
+      });
+
+      const result = await verify(token, {
+        keyResolver,
+        expectedState: "csrf-1",
+      });
+      expect(result.expiresAt).toBe(1_700_000_060_000);
+      expect(result.notBefore).toBe(1_700_000_000_000);
+    });
+
+    it("should reject expired tokens before nonceMaxAge", async () => {
+      vi.useFakeTimers({ now: 1_700_000_000_000, toFake: ["Date"] });
+      const token = await signWithValidity({ expiresIn: 60_000 });
+
+      vi.setSystemTime(1_700_000_060_000);
+      await expect(verify(token, { keyResolver })).rejects.toThrow(
+        expect.objectContaining({ code: "TOKEN_EXPIRED" }),
+      );
+    });
+
+    it("should reject tokens used before notBefore", async () => {
+      vi.useFakeTimers({ now: 1_700_000_000_000, toFake: ["Date"] });
+      const token = await signWithValidity({ notBefore: 1_700_000_030_000 });
+
+      await expect(verify(token, { keyResolver })).rejects.toThrow(
+        expect.objectContaining({ code: "TOKEN_NOT_YET_VALID" }),
+      );
+      vi.setSystemTime(1_700_000_030_000);
+      await expect(verify(token, { keyResolver })).resolves.toBeDefined();
+    });
+
+    it("should reject an altered validity period", async () => {
+      const token = await signWithValidity({ expiresIn: 60_000 });
+      const { version, data, validity } = decodeAuthToken(token);
+
+      const extended = createAuthToken(data, {
+        version,
+        validity: { expiresAt: validity!.expiresAt! + 3_600_000 },
+      });
+      await expect(verify(extended, { keyResolver })).rejects.toThrow(
+        expect.objectContaining({ code: "VALIDITY_MISMATCH" }),
+      );
+
+      const stripped = createAuthToken(data, { version });
+      await expect(verify(stripped, { keyResolver })).rejects.toThrow(
+        expect.objectContaining({ code: "VALIDITY_MISMATCH" }),
+      );
+    });
+
+    it("should accept a caller-supplied nonce that starts with a space", async () => {
+      const nonce = crypto.getRandomValues(new Uint8Array(32));
+      nonce[0] = 0x20;
+      nonce[1] = 0xff;
+      const token = await sign("hello", {
+        signer: near.KeyPair.fromRandom("ed25519").toString(),
+        accountId: "test.near",
+        recipient: "recipient.near",
+        nonce,
+      });
+
+      await expect(
+        verify(token, { validateNonce: () => true, keyResolver }),
+      ).resolves.toBeDefined();
+    });
+
+    it("should refuse a caller-supplied nonce or an unversioned token", async () => {
+      await expect(
+        sign("hello", {
+          signer: near.KeyPair.fromRandom("ed25519").toString(),
+          accountId: "test.near",
+          recipient: "recipient.near",
+          nonce: nonceModule.generateNonce(),
+          expiresIn: 60_000,
+        }),
+      ).rejects.toThrow(
+        "expiresIn and notBefore cannot be used with a caller-supplied nonce",
+      );
+      await expect(
+        sign("hello", {
+          signer: near.KeyPair.fromRandom("ed25519").toString(),
+          accountId: "test.near",
+          recipient: "recipient.near",
+          expiresIn: 60_000,
+          tokenVersion: 0,
+        }),
+      ).rejects.toThrow(
+        "expiresIn and notBefore require a versioned token (tokenVersion 1 or later).",
+      );
+    });
+  });
+
+  describe("state binding", () => {
+    const keyPair = near.KeyPair.fromRandom("ed25519");
+    const keyResolver = {
+      resolveAccessKey: vi.fn().mockResolvedValue({ type: "FullAccess" }),
+    };
+
+    it("should bind the state to a generated nonce", async () => {
+      const token = await sign("hello", {
+        signer: keyPair.toString(),
+        accountId: "test.near",
+        recipient: "recipient.near",
+        state: "csrf-token",
+      });
+
+      const { nonce, state } = parseAuthToken(token);
+      expect(state).toBe("csrf-token");
+      expect(isStateBoundToNonce(new Uint8Array(nonce), "csrf-token")).toBe(
+        true,
+      );
+      expect(() =>
+        nonceModule.validateNonce(new Uint8Array(nonce)),
+      ).not.toThrow();
+
+      const result = await verify(token, {
+        keyResolver,
+        expectedState: "csrf-token",
+      });
+      expect(result.state).toBe("csrf-token");
+    });
+
+    it("should produce a token that fails verification once its state is rewritten", async () => {
+      const token = await sign("hello", {
+        signer: keyPair.toString(),
+        accountId: "test.near",
+        recipient: "recipient.near",
+        state: "csrf-token",
+      });
+      const tampered = createAuthToken({
+        ...parseAuthToken(token),
+        state: "attacker-state",
+      });
+
+      await expect(verify(tampered, { keyResolver })).rejects.toThrow(
+        expect.objectContaining({ code: "STATE_MISMATCH" }),
+      );
+    });
+
+    it("should not bind the state to a caller-supplied nonce", async () => {
+      const nonce = nonceModule.generateNonce();
+      const token = await sign("hello", {
+        signer: keyPair.toString(),
+        accountId: "test.near",
+        recipient: "recipient.near",
+        nonce,
+        state: "csrf-token",
+      });
+
+      expect(parseAuthToken(token).nonce).toEqual(Array.from(nonce));
+      await expect(verify(token, { keyResolver })).rejects.toThrow(
+        expect.objectContaining({ code: "STATE_MISMATCH" }),
+      );
+      await expect(
+        verify(token, { keyResolver, allowUnboundState: true }),
+      ).resolves.toMatchObject({ state: "csrf-token" });
+    });
+
+    it("should throw when bindState is combined with a caller-supplied nonce", async () => {
+      await expect(
+        sign("hello", {
+          signer: keyPair.toString(),
+          accountId: "test.near",
+          recipient: "recipient.near",
+          nonce: nonceModule.generateNonce(),
+          state: "csrf-token",
+          bindState: true,
+        }),
+      ).rejects.toThrow(
+        "bindState cannot be used with a caller-supplied nonce",
+      );
+    });
+
+    it("should not bind the state when bindState is false", async () => {
+      const token = await sign("hello", {
+        signer: keyPair.toString(),
+        accountId: "test.near",
+        recipient: "recipient.near",
+        state: "csrf-token",
+        bindState: false,
+      });
+
+      const { nonce } = parseAuthToken(token);
+      expect(isStateBoundToNonce(new Uint8Array(nonce), "csrf-token")).toBe(
+        false,
+      );
+    });
+  });
 });
@@ -0,0 +1,260 @@
+import { base64, base64urlnopad } from "@scure/base";
+import { KeyPair } from "near-api-js";
+import { describe, expect, it } from "vitest";
+import { createAuthToken } from "../../src/auth/createAuthToken.js";
+import {
+  decodeAuthToken,
+  parseAuthToken,
+} from "../../src/auth/parseAuthToken.js";
+import { DEFAULT_TOKEN_VERSION } from "../../src/auth/tokenFormat.js";
+import { TokenVersionError } from "../../src/errors.js";
+import { NearAuthDataSchema, type NearAuthData } from "../../src/schemas.js";
+
+describe("auth token format", () => {
+  const authData: NearAuthData = {
+    accountId: "test.near",
+    publicKey: "ed25519:8hSHprDq2StXwMtNd43wDTXQYsjXcD4MJxUTvwtnmM4T",
+    signature: "base64signature",
+    message: "Hello, world!",
+    nonce: Array(32).fill(0),
+    recipient: "recipient.near",
+    callbackUrl: null,
+    state: "s",
+  };
+
+  const withHeader = (version: number, flags = 0) =>
+    base64.encode(
+      new Uint8Array([
+        0x4e,
+        0x53,
+        0x56,
+        version,
+        flags,
+        ...NearAuthDataSchema.serialize(authData),
+      ]),
+    );
+
+  it("should produce versioned tokens when asked", () => {
+    const token = createAuthToken(authData, { version: 1 });
+
+    expect(Array.from(base64.decode(token).slice(0, 5))).toEqual([
+      0x4e, 0x53, 0x56, 1, 0,
+    ]);
+    expect(decodeAuthToken(token)).toEqual({ version: 1, data: authData });
+  });
+
+  it("should produce and detect unversioned v0 tokens, by default", () => {
+    const legacy = base64.encode(NearAuthDataSchema.serialize(authData));
+
+    expect(DEFAULT_TOKEN_VERSION).toBe(0);
+    expect(createAuthToken(authData)).toBe(legacy);
+    expect(createAuthToken(authData, { version: 0 })).toBe(legacy);
+    expect(decodeAuthToken(legacy)).toEqual({ version: 0, data: authData });
+    expect(parseAuthToken(legacy)).toEqual(authData);
+  });
+
+  it("should reject unknown versions with TOKEN_VERSION_UNSUPPORTED", () => {
+    expect(() => parseAuthToken(withHeader(99))).toThrow(TokenVersionError);
+    expect(() => parseAuthToken(withHeader(99))).toThrow(
+      "Unsupported auth token version: 99.",
+    );
+  });
+
+  it("should reject unknown flags", () => {
+    expect(() => parseAuthToken(withHeader(1, 0x80))).toThrow(
+      expect.objectContaining({
+        code: "TOKEN_MALFORMED",
+        message: "Invalid auth token: unknown flags 0x80",
+      }),
+    );
+  });
+
+  it("should reject a truncated header", () => {
+    expect(() =>
+      parseAuthToken(base64.encode(new Uint8Array([0x4e, 0x53, 0x56, 1]))),
+    ).toThrow("Invalid auth token: truncated header");
+  });
+
+  it("should refuse to create tokens of an unsupported version", () => {
+    expect(() => createAuthToken(authData, { version: 7 as any })).toThrow(
+      "Unsupported auth token version: 7.",
+    );
+  });
+});
+
+describe("compact (v2) tokens", () => {
+  const ed25519Key = KeyPair.fromRandom("ed25519");
+  const secp256k1Key = KeyPair.fromRandom("secp256k1");
+  const randomSignature = (length: number) =>
+    base64.encode(crypto.getRandomValues(new Uint8Array(length)));
+
+  const authData: NearAuthData = {
+    accountId: "test.near",
+    publicKey: ed25519Key.getPublicKey().toString(),
+    signature: randomSignature(64),
+    message: "Hello, world!",
+    nonce: Array.from({ length: 32 }, (_, i) => i),
+    recipient: "recipient.near",
+    callbackUrl: "https://example.com/callback",
+    state: "s",
+  };
+
+  it("should round-trip ed25519 tokens to the same NearAuthData", () => {
+    const token = createAuthToken(authData, { version: 2 });
+
+    expect(decodeAuthToken(token)).toEqual({ version: 2, data: authData });
+  });
+
+  it("should round-trip secp256k1 tokens", () => {
+    const secpData = {
+      ...authData,
+      publicKey: secp256k1Key.getPublicKey().toString(),
+      signature: randomSignature(65),
+    };
+    const token = createAuthToken(secpData, { version: 2 });
+
+    expect(parseAuthToken(token)).toEqual(secpData);
+  });
+
+  it("should be smaller than v1 tokens", () => {
+    const v1 = createAuthToken(authData, { version: 1 });
+    const v2 = createAuthToken(authData, { version: 2 });
+
+    expect(v1.length - v2.length).toBeGreaterThan(60);
+  });
+
+  it("should refuse keys and signatures that do not fit raw bytes", () => {
+    expect(() =>
+      createAuthToken(
+        { ...authData, signature: randomSignature(63) },
+        { version: 2 },
+      ),
+    ).toThrow("Cannot store signature in a compact token: expected 64 bytes.");
+    expect(() =>
+      createAuthToken({ ...authData, publicKey: "rsa:abc" }, { version: 2 }),
+    ).toThrow(
+      'Cannot store public key in a compact token: must start with "ed25519:" or "secp256k1:".',
+    );
+  });
+
+  it("should reject truncated compact bodies as malformed", () => {
+    const bytes = base64.decode(createAuthToken(authData, { version: 2 }));
+
+    expect(() => parseAuthToken(base64.encode(bytes.slice(0, 40)))).toThrow(
+      expect.objectContaining({ code: "TOKEN_MALFORMED" }),
+    );
+  });
+});
+
+describe("token encodings", () => {
+  // Chosen so that the standard base64 token contains "+" and "/"
+  const authData: NearAuthData = {
+    accountId: "test.near",
+    publicKey: "ed25519:8hSHprDq2StXwMtNd43wDTXQYsjXcD4MJxUTvwtnmM4T",
+    signature: base64.encode(new Uint8Array(64).fill(0xfb)),
+    message: "Hello, world!",
+    nonce: Array(32).fill(0xff),
+    recipient: "recipient.near",
+    callbackUrl: null,
+    state: null,
+  };
+
+  it("should produce URL-safe base64url tokens", () => {
+    const standard = createAuthToken(authData);
+    const urlSafe = createAuthToken(authData, { encoding: "base64url" });
+
+    expect(standard).toMatch(/[+/]/);
+    expect(urlSafe).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(encodeURIComponent(urlSafe)).toBe(urlSafe);
+    expect(base64urlnopad.decode(urlSafe)).toEqual(base64.decode(standard));
+  });
+
+  it("should parse either encoding to the same data", () => {
+    for (const version of [0, 1, 2] as const) {
+      for (const encoding of ["base64", "base64url"] as const) {
+        const token = createAuthToken(authData, { version, encoding });
+        expect(decodeAuthToken(token)).toEqual({ version, data: authData });
+      }
+    }
+  });
+
+  it("should decode unpadded tokens without URL-specific characters as base64url", () => {
+    const bytes = new Uint8Array([0x4e, 0x53, 0x56, 99, 0]);
+
+    expect(() => parseAuthToken(base64urlnopad.encode(bytes))).toThrow(
+      "Unsupported auth token version: 99.",
+    );
+  });
+
+  it("should reject tokens mixing both alphabets", () => {
+    const token = createAuthToken(authData);
+
+    expect(() => parseAuthToken(`-${token.substring(1)}`)).toThrow(
+      expect.objectContaining({ code: "TOKEN_MALFORMED" }),
+    );
+  });
+});
+
+describe("validity section", () => {
+  const authData: NearAuthData = {
+    accountId: "test.near",
+    publicKey: "ed25519:8hSHprDq2StXwMtNd43wDTXQYsjXcD4MJxUTvwtnmM4T",
+    signature: base64.encode(new Uint8Array(64)),
+    message: "Hello, world!",
+    nonce: Array(32).fill(0),
+    recipient: "recipient.near",
+    callbackUrl: null,
+    state: null,
+  };
+
+  it("should round-trip the validity period for every versioned format", () => {
+    for (const version of [1, 2] as const) {
+      const token = createAuthToken(authData, {
+        version,
+        validity: { expiresAt: 1_700_000_060_000 },
+      });
+
+      expect(decodeAuthToken(token)).toEqual({
+        version,
+        validity: { expiresAt: 1_700_000_060_000 },
+        data: authData,
+      });
+    }
+  });
+
+  it("should set the validity flag only when a period is given", () => {
+    const withValidity = base64.decode(
+      createAuthToken(authData, { validity: { notBefore: 1 } }),
+    );
+    const without = base64.decode(
+      createAuthToken(authData, { version: 1, validity: {} }),
+    );
+
+    expect(withValidity[3]).toBe(1);
+
+    expect(withValidity[4]).toBe(0x01);
+    expect(without[4]).toBe(0);
+    expect(decodeAuthToken(base64.encode(without))).not.toHaveProperty(
+      "validity",
+    );
+  });
+
+  it("should refuse a validity period in unversioned tokens", () => {
+    expect(() =>
+      createAuthToken(authData, {
+        version: 0,
+        validity: { expiresAt: 1_700_000_060_000 },
+      }),
+    ).toThrow(
+      "expiresAt and notBefore require a versioned token (version 1 or later).",
+    );
+  });
+
+  it("should reject a truncated validity section", () => {
+    expect(() =>
+      parseAuthToken(
+        base64.encode(new Uint8Array([0x4e, 0x53, 0x56, 1, 0x01, 0, 0])),
+      ),
+    ).toThrow("Invalid auth token: truncated validity section");
+  });
+});
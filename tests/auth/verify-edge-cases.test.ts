@@ -4,6 +4,7 @@ import { verify } from "../../src/auth/verify.js";
 import * as cryptoModule from "../../src/crypto/crypto.js";
 import type { NearAuthData } from "../../src/schemas.js";
 import * as nonceModule from "../../src/utils/nonce.js";
+import { bindStateToNonce } from "../../src/utils/state.js";
 
 // Mock dependencies
 vi.mock("../../src/crypto/crypto.js");
@@ -13,7 +14,7 @@ vi.mock("../../src/utils/nonce.js");
 global.fetch = vi.fn();
 
 describe("verify - Edge Cases", () => {
-  const testNonce = new Uint8Array(32);
+  const testNonce = bindStateToNonce(new Uint8Array(32), "edge-case-state");
 
   const baseAuthData: NearAuthData = {
     accountId: "testuser.testnet",
@@ -170,7 +171,10 @@ describe("verify - Edge Cases", () => {
         validateState: customValidateState,
       }),
     ).rejects.toThrow("Custom state validation error");
-    expect(customValidateState).toHaveBeenCalledWith("edge-case-state");
+    expect(customValidateState).toHaveBeenCalledWith(
+      "edge-case-state",
+      expect.objectContaining({ accountId: baseAuthData.accountId }),
+    );
   });
 
   it("should handle null state in token when expectedState is provided", async () => {
@@ -199,7 +203,10 @@ describe("verify - Edge Cases", () => {
         validateState: customValidateState,
       }),
     ).rejects.toThrow("Custom state validation failed");
-    expect(customValidateState).toHaveBeenCalledWith(null);
+    expect(customValidateState).toHaveBeenCalledWith(
+      null,
+      expect.objectContaining({ accountId: baseAuthData.accountId }),
+    );
   });
 
   it("should pass undefined state from token to custom validateState function", async () => {
@@ -222,7 +229,10 @@ describe("verify - Edge Cases", () => {
     await verify(tokenString, {
       validateState: customValidateState,
     });
-    expect(customValidateState).toHaveBeenCalledWith(null);
+    expect(customValidateState).toHaveBeenCalledWith(
+      null,
+      expect.objectContaining({ accountId: baseAuthData.accountId }),
+    );
   });
 
   it("should succeed if expectedState is undefined and token state is undefined", async () => {
@@ -251,7 +261,10 @@ describe("verify - Edge Cases", () => {
         validateMessage: customValidateMessage,
       }),
     ).rejects.toThrow("Custom message validation error");
-    expect(customValidateMessage).toHaveBeenCalledWith(baseAuthData.message);
+    expect(customValidateMessage).toHaveBeenCalledWith(
+      baseAuthData.message,
+      expect.objectContaining({ accountId: baseAuthData.accountId }),
+    );
   });
 
   it("should succeed with empty string message if expectedMessage is also an empty string", async () => {
@@ -295,6 +308,9 @@ describe("verify - Edge Cases", () => {
     await verify(tokenString, {
       validateMessage: customValidateMessage,
     });
-    expect(customValidateMessage).toHaveBeenCalledWith("");
+    expect(customValidateMessage).toHaveBeenCalledWith(
+      "",
+      expect.objectContaining({ accountId: baseAuthData.accountId }),
+    );
   });
 });
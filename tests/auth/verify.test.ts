@@ -1,9 +1,14 @@
+import { base58, base64, hex } from "@scure/base";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { createAuthToken } from "../../src/auth/createAuthToken.js";
 import { verify } from "../../src/auth/verify.js";
 import * as cryptoModule from "../../src/crypto/crypto.js";
+import { NearAuthError, NonceValidationError } from "../../src/errors.js";
+import { createMemoryOwnershipCache } from "../../src/ownership/cache.js";
 import type { NearAuthData } from "../../src/schemas.js";
 import * as nonceModule from "../../src/utils/nonce.js";
+import { createMemoryNonceStore } from "../../src/utils/nonceStore.js";
+import { bindStateToNonce } from "../../src/utils/state.js";
 
 // Mock dependencies
 vi.mock("../../src/crypto/crypto.js");
@@ -13,7 +18,8 @@ vi.mock("../../src/utils/nonce.js");
 global.fetch = vi.fn();
 
 describe("verify", () => {
-  const testNonce = new Uint8Array(32); // Assuming a valid 32-byte nonce
+  // Assuming a valid 32-byte nonce, bound to the fixture state
+  const testNonce = bindStateToNonce(new Uint8Array(32), "test-state-123");
 
   const baseAuthData: NearAuthData = {
     accountId: "testuser.testnet",
@@ -72,7 +78,7 @@ describe("verify", () => {
     await expect(verify(authTokenString)).rejects.toThrow(
       "Public key ownership verification failed",
     );
-    expect(cryptoModule.verifySignature).not.toHaveBeenCalled();
+    expect(cryptoModule.verifySignature).toHaveBeenCalled();
   });
 
   it("should reject if FastNEAR API request fails (network error)", async () => {
@@ -83,7 +89,7 @@ describe("verify", () => {
     await expect(verify(authTokenString)).rejects.toThrow(
       "Public key ownership verification failed",
     );
-    expect(cryptoModule.verifySignature).not.toHaveBeenCalled();
+    expect(cryptoModule.verifySignature).toHaveBeenCalled();
   });
 
   it("should reject if FastNEAR API returns a non-ok response", async () => {
@@ -96,10 +102,160 @@ describe("verify", () => {
     await expect(verify(authTokenString)).rejects.toThrow(
       "Public key ownership verification failed",
     );
-    expect(cryptoModule.verifySignature).not.toHaveBeenCalled();
+    expect(cryptoModule.verifySignature).toHaveBeenCalled();
   });
 
-  it("should use /all endpoint and succeed if requireFullAccessKey is false", async () => {
+  it("should load function call key permissions over RPC if requireFullAccessKey is false", async () => {
+    (fetch as ReturnType<typeof vi.fn>)
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ account_ids: [] }), // Not a full access key
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          result: {
+            permission: {
+              FunctionCall: {
+                allowance: null,
+                receiver_id: baseAuthData.recipient,
+                method_names: [],
+              },
+            },
+          },
+        }),
+      });
+    vi.spyOn(cryptoModule, "verifySignature").mockResolvedValue(true);
+
+    const result = await verify(authTokenString, {
+      requireFullAccessKey: false,
+    });
+
+    expect(result.accountId).toBe(baseAuthData.accountId);
+    expect(result.keyPermission).toEqual({
+      type: "FunctionCall",
+      receiverId: baseAuthData.recipient,
+      methodNames: [],
+    });
+    expect(fetch).toHaveBeenCalledWith(
+      `https://test.api.fastnear.com/v0/public_key/${baseAuthData.publicKey}`,
+    );
+    expect(fetch).toHaveBeenCalledWith(
+      "https://rpc.testnet.near.org",
+      expect.objectContaining({ method: "POST" }),
+    );
+  });
+
+  it("should reject a function call key restricted to a different receiver", async () => {
+    const keyResolver = {
+      resolveAccessKey: vi.fn().mockResolvedValue({
+        type: "FunctionCall",
+        receiverId: "other-dapp.near",
+        methodNames: [],
+      }),
+    };
+
+    await expect(
+      verify(authTokenString, { keyResolver, requireFullAccessKey: false }),
+    ).rejects.toThrow(
+      "Function call access key verification failed: key is restricted to 'other-dapp.near', but recipient is 'recipient.near'.",
+    );
+    expect(cryptoModule.verifySignature).toHaveBeenCalled();
+  });
+
+  it("should reject a function call key with unknown permission details", async () => {
+    const keyResolver = {
+      resolveAccessKey: vi.fn().mockResolvedValue({ type: "FunctionCall" }),
+    };
+
+    await expect(
+      verify(authTokenString, { keyResolver, requireFullAccessKey: false }),
+    ).rejects.toThrow("key permission details are unavailable");
+  });
+
+  it("should enforce requiredMethodNames on a function call key", async () => {
+    const keyResolver = {
+      resolveAccessKey: vi.fn().mockResolvedValue({
+        type: "FunctionCall",
+        receiverId: baseAuthData.recipient,
+        methodNames: ["login"],
+      }),
+    };
+    vi.spyOn(cryptoModule, "verifySignature").mockResolvedValue(true);
+
+    await expect(
+      verify(authTokenString, {
+        keyResolver,
+        requireFullAccessKey: false,
+        requiredMethodNames: ["login", "transfer"],
+      }),
+    ).rejects.toThrow("key does not permit method(s) 'transfer'");
+
+    const result = await verify(authTokenString, {
+      keyResolver,
+      requireFullAccessKey: false,
+      requiredMethodNames: ["login"],
+    });
+    expect(result.accountId).toBe(baseAuthData.accountId);
+  });
+
+  it("should accept any required method for a function call key without a method list", async () => {
+    const keyResolver = {
+      resolveAccessKey: vi.fn().mockResolvedValue({
+        type: "FunctionCall",
+        receiverId: baseAuthData.recipient,
+        methodNames: [],
+      }),
+    };
+    vi.spyOn(cryptoModule, "verifySignature").mockResolvedValue(true);
+
+    const result = await verify(authTokenString, {
+      keyResolver,
+      requireFullAccessKey: false,
+      requiredMethodNames: ["anything"],
+    });
+    expect(result.keyPermission.type).toBe("FunctionCall");
+  });
+
+  it("should use a custom keyResolver instead of FastNEAR", async () => {
+    const keyResolver = {
+      resolveAccessKey: vi.fn().mockResolvedValue({ type: "FullAccess" }),
+    };
+    vi.spyOn(cryptoModule, "verifySignature").mockResolvedValue(true);
+
+    const result = await verify(authTokenString, { keyResolver });
+
+    expect(result.accountId).toBe(baseAuthData.accountId);
+    expect(keyResolver.resolveAccessKey).toHaveBeenCalledWith(
+      baseAuthData.accountId,
+      baseAuthData.publicKey,
+      { requireFullAccessKey: true },
+    );
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("should reject a function call key from a custom keyResolver when full access is required", async () => {
+    const keyResolver = {
+      resolveAccessKey: vi.fn().mockResolvedValue({ type: "FunctionCall" }),
+    };
+
+    await expect(verify(authTokenString, { keyResolver })).rejects.toThrow(
+      "Public key ownership verification failed: public key not associated",
+    );
+    expect(cryptoModule.verifySignature).toHaveBeenCalled();
+  });
+
+  it("should report an API failure when a custom keyResolver throws", async () => {
+    const keyResolver = {
+      resolveAccessKey: vi.fn().mockRejectedValue(new Error("Indexer down")),
+    };
+
+    await expect(verify(authTokenString, { keyResolver })).rejects.toThrow(
+      "Public key ownership verification failed: API error or unexpected response",
+    );
+  });
+
+  it("should use the configured network instead of the account suffix", async () => {
     (fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
       ok: true,
       json: async () => ({ account_ids: [baseAuthData.accountId] }),
@@ -107,13 +263,366 @@ describe("verify", () => {
     vi.spyOn(cryptoModule, "verifySignature").mockResolvedValue(true);
 
     const result = await verify(authTokenString, {
-      requireFullAccessKey: false,
+      network: "mainnet",
+      accountNetworkPolicy: "allow",
     });
 
-    expect(result.accountId).toBe(baseAuthData.accountId);
+    expect(result.networkId).toBe("mainnet");
     expect(fetch).toHaveBeenCalledWith(
-      `https://test.api.fastnear.com/v0/public_key/${baseAuthData.publicKey}/all`,
+      `https://api.fastnear.com/v0/public_key/${baseAuthData.publicKey}`,
+    );
+  });
+
+  it("should reject accounts that do not belong to the configured network", async () => {
+    await expect(
+      verify(authTokenString, { network: "mainnet" }),
+    ).rejects.toThrow(
+      "Account network mismatch: 'testuser.testnet' does not belong to network 'mainnet'.",
+    );
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("should reject an unknown network as a configuration error", async () => {
+    await expect(
+      verify(authTokenString, { network: "betanet" as any }),
+    ).rejects.toThrow(
+      expect.objectContaining({ code: "CONFIGURATION_INVALID" }),
+    );
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("should verify against a custom network's RPC endpoint", async () => {
+    (fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ result: { permission: "FullAccess" } }),
+    });
+    vi.spyOn(cryptoModule, "verifySignature").mockResolvedValue(true);
+
+    const result = await verify(authTokenString, {
+      network: { networkId: "localnet", rpcUrl: "http://localhost:3030" },
+    });
+
+    expect(result.networkId).toBe("localnet");
+    expect(fetch).toHaveBeenCalledWith(
+      "http://localhost:3030",
+      expect.objectContaining({ method: "POST" }),
+    );
+  });
+
+  it("should serve repeated ownership lookups from ownershipCache", async () => {
+    const ownershipCache = createMemoryOwnershipCache();
+    (fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ account_ids: [baseAuthData.accountId] }),
+    });
+    vi.spyOn(cryptoModule, "verifySignature").mockResolvedValue(true);
+
+    const first = await verify(authTokenString, { ownershipCache });
+    const second = await verify(authTokenString, { ownershipCache });
+
+    expect(first.ownershipSource).toBe("resolver");
+    expect(second.ownershipSource).toBe("cache");
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(ownershipCache.getStats()).toMatchObject({ hits: 1, misses: 1 });
+  });
+
+  it("should not look up or cache ownership for an invalid signature", async () => {
+    const ownershipCache = createMemoryOwnershipCache();
+    vi.spyOn(cryptoModule, "verifySignature").mockRejectedValue(
+      new Error("bad signature"),
     );
+
+    await expect(verify(authTokenString, { ownershipCache })).rejects.toThrow(
+      expect.objectContaining({ code: "SIGNATURE_INVALID" }),
+    );
+    expect(fetch).not.toHaveBeenCalled();
+    expect(ownershipCache.getStats()).toMatchObject({ size: 0, misses: 0 });
+  });
+
+  describe("replay protection", () => {
+    const mockOwnership = () =>
+      (fetch as ReturnType<typeof vi.fn>).mockResolvedValue({
+        ok: true,
+        json: async () => ({ account_ids: [baseAuthData.accountId] }),
+      });
+
+    it("should reject a second use of the same nonce with NONCE_REPLAYED", async () => {
+      const nonceStore = createMemoryNonceStore();
+      mockOwnership();
+      vi.spyOn(cryptoModule, "verifySignature").mockResolvedValue(true);
+
+      await verify(authTokenString, { nonceStore });
+      await expect(verify(authTokenString, { nonceStore })).rejects.toThrow(
+        expect.objectContaining({
+          code: "NONCE_REPLAYED",
+          message: "Nonce validation failed: Nonce has already been used",
+        }),
+      );
+    });
+
+    it("should not consume the nonce of a token that fails verification", async () => {
+      const nonceStore = { consume: vi.fn().mockReturnValue(true) };
+      mockOwnership();
+      vi.spyOn(cryptoModule, "verifySignature").mockRejectedValue(
+        new Error("bad signature"),
+      );
+
+      await expect(verify(authTokenString, { nonceStore })).rejects.toThrow(
+        "Cryptographic signature verification failed",
+      );
+      expect(nonceStore.consume).not.toHaveBeenCalled();
+    });
+
+    it("should pass the account, nonce and an expiry based on nonceMaxAge", async () => {
+      const nonceStore = { consume: vi.fn().mockResolvedValue(true) };
+      mockOwnership();
+      vi.spyOn(cryptoModule, "verifySignature").mockResolvedValue(true);
+      const before = Date.now();
+
+      await verify(authTokenString, { nonceStore, nonceMaxAge: 60000 });
+
+      const [accountId, nonce, expiresAt] = nonceStore.consume.mock.calls[0];
+      expect(accountId).toBe(baseAuthData.accountId);
+      expect(nonce).toEqual(testNonce);
+      expect(expiresAt).toBeGreaterThanOrEqual(before + 60000);
+      expect(expiresAt).toBeLessThanOrEqual(Date.now() + 60000);
+    });
+
+    it("should report NONCE_STORE_UNAVAILABLE when the store fails", async () => {
+      const nonceStore = {
+        consume: vi.fn().mockRejectedValue(new Error("redis down")),
+      };
+      mockOwnership();
+      vi.spyOn(cryptoModule, "verifySignature").mockResolvedValue(true);
+
+      await expect(verify(authTokenString, { nonceStore })).rejects.toThrow(
+        expect.objectContaining({ code: "NONCE_STORE_UNAVAILABLE" }),
+      );
+    });
+  });
+
+  describe("state binding", () => {
+    const unboundAuthData: NearAuthData = {
+      ...baseAuthData,
+      nonce: Array.from(new Uint8Array(32)),
+    };
+
+    it("should reject a token whose state was altered", async () => {
+      const tampered = createAuthToken({
+        ...baseAuthData,
+        state: "attacker-state",
+      });
+
+      await expect(verify(tampered)).rejects.toThrow(
+        expect.objectContaining({
+          code: "STATE_MISMATCH",
+          message:
+            "State binding verification failed: state is not bound to the signed nonce.",
+        }),
+      );
+      expect(fetch).not.toHaveBeenCalled();
+      expect(cryptoModule.verifySignature).not.toHaveBeenCalled();
+    });
+
+    it("should reject an unbound state by default", async () => {
+      await expect(verify(createAuthToken(unboundAuthData))).rejects.toThrow(
+        expect.objectContaining({ code: "STATE_MISMATCH" }),
+      );
+    });
+
+    it("should accept an unbound state when allowUnboundState is set", async () => {
+      (fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ account_ids: [baseAuthData.accountId] }),
+      });
+      vi.spyOn(cryptoModule, "verifySignature").mockResolvedValue(true);
+
+      const result = await verify(createAuthToken(unboundAuthData), {
+        allowUnboundState: true,
+        expectedState: "test-state-123",
+      });
+
+      expect(result.state).toBe("test-state-123");
+    });
+
+    it("should not require binding for tokens without a state", async () => {
+      (fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ account_ids: [baseAuthData.accountId] }),
+      });
+      vi.spyOn(cryptoModule, "verifySignature").mockResolvedValue(true);
+
+      const result = await verify(
+        createAuthToken({ ...unboundAuthData, state: null }),
+      );
+
+      expect(result.state).toBeUndefined();
+    });
+  });
+
+  describe("token versions", () => {
+    const mockOwnedAndSigned = () => {
+      (fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ account_ids: [baseAuthData.accountId] }),
+      });
+      vi.spyOn(cryptoModule, "verifySignature").mockResolvedValue(true);
+    };
+
+    it("should report the version of the token", async () => {
+      mockOwnedAndSigned();
+      const v1 = await verify(createAuthToken(baseAuthData, { version: 1 }));
+      mockOwnedAndSigned();
+      const v0 = await verify(authTokenString);
+
+      expect(v1.tokenVersion).toBe(1);
+      expect(v0.tokenVersion).toBe(0);
+    });
+
+    it("should reject tokens below minTokenVersion", async () => {
+      await expect(
+        verify(createAuthToken(baseAuthData, { version: 0 }), {
+          minTokenVersion: 1,
+        }),
+      ).rejects.toThrow(
+        expect.objectContaining({
+          code: "TOKEN_VERSION_UNSUPPORTED",
+          message:
+            "Auth token version 0 is below the minimum accepted version 1.",
+        }),
+      );
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it("should not report unknown versions as malformed", async () => {
+      const bytes = base64.decode(
+        createAuthToken(baseAuthData, { version: 1 }),
+      );
+      bytes[3] = 200;
+
+      await expect(verify(base64.encode(bytes))).rejects.toThrow(
+        expect.objectContaining({ code: "TOKEN_VERSION_UNSUPPORTED" }),
+      );
+    });
+  });
+
+  describe("implicit accounts", () => {
+    // The implicit account ID is the hex encoding of the public key
+    const implicitAccountId =
+      "7258e2e13a32faf1c7e4d8b4c5c0e5d80e6d1b3a53c86e0e8e00e6a6e4d7e41b";
+    const implicitAuthData: NearAuthData = {
+      ...baseAuthData,
+      accountId: implicitAccountId,
+      publicKey: `ed25519:${base58.encode(hex.decode(implicitAccountId))}`,
+    };
+
+    it("should verify ownership of an implicit account locally", async () => {
+      vi.spyOn(cryptoModule, "verifySignature").mockResolvedValue(true);
+
+      const result = await verify(createAuthToken(implicitAuthData));
+
+      expect(result.accountId).toBe(implicitAuthData.accountId);
+      expect(result.keyPermission).toEqual({ type: "FullAccess" });
+      expect(result.ownershipSource).toBe("implicit");
+      expect(fetch).not.toHaveBeenCalled();
+      expect(cryptoModule.verifySignature).toHaveBeenCalled();
+    });
+
+    it("should use the key resolver when implicitAccountOwnership is 'forbid'", async () => {
+      (fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ account_ids: [implicitAuthData.accountId] }),
+      });
+      vi.spyOn(cryptoModule, "verifySignature").mockResolvedValue(true);
+
+      await verify(createAuthToken(implicitAuthData), {
+        implicitAccountOwnership: "forbid",
+      });
+
+      expect(fetch).toHaveBeenCalledWith(
+        `https://api.fastnear.com/v0/public_key/${implicitAuthData.publicKey}`,
+      );
+    });
+
+    it("should reject named accounts when implicitAccountOwnership is 'require'", async () => {
+      await expect(
+        verify(authTokenString, { implicitAccountOwnership: "require" }),
+      ).rejects.toThrow(
+        "Implicit account verification failed: 'testuser.testnet' is not the implicit account",
+      );
+      expect(fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("error codes", () => {
+    const rejectionOf = (promise: Promise<unknown>) =>
+      promise.then(
+        () => {
+          throw new Error("Expected verify to reject");
+        },
+        (error) => error as NearAuthError,
+      );
+
+    it("should reject a malformed token with TOKEN_MALFORMED", async () => {
+      const error = await rejectionOf(verify("invalid-token"));
+      expect(error).toBeInstanceOf(NearAuthError);
+      expect(error.code).toBe("TOKEN_MALFORMED");
+      expect(error.cause).toBeInstanceOf(Error);
+    });
+
+    it("should preserve the nonce error code", async () => {
+      vi.spyOn(nonceModule, "validateNonce").mockImplementation(() => {
+        throw new NonceValidationError("NONCE_EXPIRED", "Nonce has expired");
+      });
+
+      const error = await rejectionOf(verify(authTokenString));
+      expect(error.code).toBe("NONCE_EXPIRED");
+      expect(error.message).toBe("Nonce validation failed: Nonce has expired");
+    });
+
+    it("should report RECIPIENT_MISMATCH with expected and actual values", async () => {
+      const error = await rejectionOf(
+        verify(authTokenString, { expectedRecipient: "other.near" }),
+      );
+      expect(error.code).toBe("RECIPIENT_MISMATCH");
+      expect(error.details).toEqual({
+        expected: "other.near",
+        actual: baseAuthData.recipient,
+      });
+    });
+
+    it("should distinguish KEY_NOT_OWNED from OWNERSHIP_LOOKUP_UNAVAILABLE", async () => {
+      const lookupFailure = new Error("Indexer down");
+      const notOwned = await rejectionOf(
+        verify(authTokenString, {
+          keyResolver: { resolveAccessKey: vi.fn().mockResolvedValue(null) },
+        }),
+      );
+      const unavailable = await rejectionOf(
+        verify(authTokenString, {
+          keyResolver: {
+            resolveAccessKey: vi.fn().mockRejectedValue(lookupFailure),
+          },
+        }),
+      );
+
+      expect(notOwned.code).toBe("KEY_NOT_OWNED");
+      expect(unavailable.code).toBe("OWNERSHIP_LOOKUP_UNAVAILABLE");
+      expect(unavailable.cause).toBe(lookupFailure);
+    });
+
+    it("should report SIGNATURE_INVALID and preserve the cause", async () => {
+      const cryptoError = new Error("bad signature");
+      (fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ account_ids: [baseAuthData.accountId] }),
+      });
+      vi.spyOn(cryptoModule, "verifySignature").mockRejectedValue(cryptoError);
+
+      const error = await rejectionOf(verify(authTokenString));
+      expect(error.code).toBe("SIGNATURE_INVALID");
+      expect(error.cause).toBe(cryptoError);
+    });
   });
 
   it("should use mainnet FastNEAR API for mainnet accounts", async () => {
@@ -134,6 +643,7 @@ describe("verify", () => {
     const result = await verify(mainnetTokenString);
 
     expect(result.accountId).toBe(mainnetAuthData.accountId);
+    expect(result.networkId).toBe("mainnet");
     expect(fetch).toHaveBeenCalledWith(
       `https://api.fastnear.com/v0/public_key/${mainnetAuthData.publicKey}`,
     );
@@ -252,7 +762,49 @@ describe("verify", () => {
       }),
     ).rejects.toThrow("Custom nonce validation failed");
 
-    expect(customValidateNonce).toHaveBeenCalledWith(new Uint8Array(32));
+    expect(customValidateNonce).toHaveBeenCalledWith(
+      testNonce,
+      expect.objectContaining({ accountId: baseAuthData.accountId }),
+    );
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("should await async custom validators and pass the parsed token as context", async () => {
+    (fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ account_ids: [baseAuthData.accountId] }),
+    });
+    vi.spyOn(cryptoModule, "verifySignature").mockResolvedValue(true);
+    const validateNonce = vi.fn().mockResolvedValue(true);
+    const validateState = vi.fn(
+      async (state: string | undefined, context: NearAuthData) =>
+        state === "test-state-123" && context.accountId === "testuser.testnet",
+    );
+
+    const result = await verify(authTokenString, {
+      validateNonce,
+      validateState,
+      validateRecipient: async () => true,
+      validateMessage: async () => true,
+    });
+
+    expect(result.accountId).toBe(baseAuthData.accountId);
+    expect(validateNonce).toHaveBeenCalledWith(
+      testNonce,
+      expect.objectContaining({
+        accountId: baseAuthData.accountId,
+        publicKey: baseAuthData.publicKey,
+        state: baseAuthData.state,
+      }),
+    );
+  });
+
+  it("should reject when an async custom validator resolves to false", async () => {
+    await expect(
+      verify(authTokenString, {
+        validateRecipient: async () => false,
+      }),
+    ).rejects.toThrow("Custom recipient validation failed");
     expect(fetch).not.toHaveBeenCalled();
   });
 
@@ -324,7 +876,10 @@ describe("verify", () => {
       validateState: customValidateState,
     });
     expect(result.accountId).toBe(baseAuthData.accountId);
-    expect(customValidateState).toHaveBeenCalledWith("test-state-123");
+    expect(customValidateState).toHaveBeenCalledWith(
+      "test-state-123",
+      expect.objectContaining({ accountId: baseAuthData.accountId }),
+    );
   });
 
   it("should reject with custom validateState function returning false", async () => {
@@ -334,7 +889,10 @@ describe("verify", () => {
         validateState: customValidateState,
       }),
     ).rejects.toThrow("Custom state validation failed");
-    expect(customValidateState).toHaveBeenCalledWith("test-state-123");
+    expect(customValidateState).toHaveBeenCalledWith(
+      "test-state-123",
+      expect.objectContaining({ accountId: baseAuthData.accountId }),
+    );
     expect(fetch).not.toHaveBeenCalled();
   });
 
@@ -375,7 +933,10 @@ describe("verify", () => {
       validateMessage: customValidateMessage,
     });
     expect(result.accountId).toBe(baseAuthData.accountId);
-    expect(customValidateMessage).toHaveBeenCalledWith("test message");
+    expect(customValidateMessage).toHaveBeenCalledWith(
+      "test message",
+      expect.objectContaining({ accountId: baseAuthData.accountId }),
+    );
   });
 
   it("should reject with custom validateMessage function returning false", async () => {
@@ -385,7 +946,10 @@ describe("verify", () => {
         validateMessage: customValidateMessage,
       }),
     ).rejects.toThrow("Custom message validation failed");
-    expect(customValidateMessage).toHaveBeenCalledWith("test message");
+    expect(customValidateMessage).toHaveBeenCalledWith(
+      "test message",
+      expect.objectContaining({ accountId: baseAuthData.accountId }),
+    );
     expect(fetch).not.toHaveBeenCalled();
   });
 });
@@ -0,0 +1,158 @@
+import * as near from "near-api-js";
+import { describe, expect, it, vi } from "vitest";
+import { createAuthToken } from "../../src/auth/createAuthToken.js";
+import { parseAuthToken } from "../../src/auth/parseAuthToken.js";
+import { sign } from "../../src/auth/sign.js";
+import { verifyBatch } from "../../src/auth/verifyBatch.js";
+import type { KeyResolver } from "../../src/types.js";
+import { createMemoryNonceStore } from "../../src/utils/nonceStore.js";
+
+describe("verifyBatch", () => {
+  const recipient = "indexer.near";
+  const keyPairs = Array.from({ length: 6 }, () =>
+    near.KeyPair.fromRandom("ed25519"),
+  );
+
+  const signAs = (index: number, message = "event") =>
+    sign(message, {
+      signer: keyPairs[index].toString(),
+      accountId: `user${index}.near`,
+      recipient,
+    });
+
+  const fullAccessResolver = () => ({
+    resolveAccessKey: vi.fn(async () => ({ type: "FullAccess" as const })),
+  });
+
+  it("should return one result per token, in order", async () => {
+    const good = await signAs(0);
+    const tampered = createAuthToken({
+      ...parseAuthToken(await signAs(1)),
+      message: "forged",
+    });
+    const keyResolver: KeyResolver = {
+      resolveAccessKey: vi.fn(async (accountId: string) =>
+        accountId === "user2.near" ? null : { type: "FullAccess" as const },
+      ),
+    };
+
+    const results = await verifyBatch(
+      [good, "not-a-token", tampered, await signAs(2)],
+      { keyResolver },
+    );
+
+    expect(results.map((r) => (r.ok ? "ok" : r.reason))).toEqual([
+      "ok",
+      "TOKEN_MALFORMED",
+      "SIGNATURE_INVALID",
+      "KEY_NOT_OWNED",
+    ]);
+    expect(results[0].ok && results[0].result.accountId).toBe("user0.near");
+  });
+
+  it("should look up each (accountId, publicKey) pair once", async () => {
+    const keyResolver = fullAccessResolver();
+    const tokens = await Promise.all([
+      signAs(0, "a"),
+      signAs(0, "b"),
+      signAs(0, "c"),
+      signAs(1, "a"),
+      signAs(1, "b"),
+    ]);
+
+    const results = await verifyBatch(tokens, { keyResolver });
+
+    expect(results.every((r) => r.ok)).toBe(true);
+    expect(keyResolver.resolveAccessKey).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not look up keys of tokens with an invalid signature", async () => {
+    const keyResolver = fullAccessResolver();
+    const tampered = createAuthToken({
+      ...parseAuthToken(await signAs(3)),
+      message: "forged",
+    });
+
+    const [result] = await verifyBatch([tampered], { keyResolver });
+
+    expect(result.ok).toBe(false);
+    expect(keyResolver.resolveAccessKey).not.toHaveBeenCalled();
+  });
+
+  it("should run at most `concurrency` lookups at a time", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const keyResolver: KeyResolver = {
+      resolveAccessKey: vi.fn(async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight--;
+        return { type: "FullAccess" as const };
+      }),
+    };
+    const tokens = await Promise.all(keyPairs.map((_, i) => signAs(i)));
+
+    const results = await verifyBatch(tokens, { keyResolver, concurrency: 2 });
+
+    expect(results.every((r) => r.ok)).toBe(true);
+    expect(keyResolver.resolveAccessKey).toHaveBeenCalledTimes(6);
+    expect(maxInFlight).toBe(2);
+  });
+
+  it("should share a failed lookup between tokens and report it as infrastructure", async () => {
+    const keyResolver: KeyResolver = {
+      resolveAccessKey: vi.fn().mockRejectedValue(new Error("RPC down")),
+    };
+    const tokens = await Promise.all([signAs(4, "a"), signAs(4, "b")]);
+
+    const results = await verifyBatch(tokens, { keyResolver });
+
+    for (const result of results) {
+      expect(result).toMatchObject({
+        ok: false,
+        reason: "OWNERSHIP_LOOKUP_UNAVAILABLE",
+        kind: "infrastructure",
+      });
+    }
+    expect(keyResolver.resolveAccessKey).toHaveBeenCalledTimes(1);
+  });
+
+  it("should accept only the first of two tokens with the same nonce", async () => {
+    const token = await signAs(5);
+
+    const results = await verifyBatch([token, token], {
+      keyResolver: fullAccessResolver(),
+      nonceStore: createMemoryNonceStore(),
+    });
+
+    expect(results[0].ok).toBe(true);
+    expect(results[1]).toMatchObject({ ok: false, reason: "NONCE_REPLAYED" });
+  });
+
+  it("should apply the verify options to every token", async () => {
+    const results = await verifyBatch([await signAs(0)], {
+      keyResolver: fullAccessResolver(),
+      expectedRecipient: "other.near",
+    });
+
+    expect(results[0]).toMatchObject({
+      ok: false,
+      reason: "RECIPIENT_MISMATCH",
+    });
+  });
+
+  it("should throw for an invalid concurrency", async () => {
+    await expect(verifyBatch([], { concurrency: 0 })).rejects.toThrow(
+      "Invalid concurrency: expected a positive integer, got 0.",
+    );
+  });
+
+  it("should throw for a network without endpoints", async () => {
+    await expect(
+      verifyBatch([], { network: { networkId: "localnet" } }),
+    ).rejects.toThrow(
+      expect.objectContaining({ code: "CONFIGURATION_INVALID" }),
+    );
+  });
+});
@@ -53,7 +53,7 @@ describe("Crypto Module - Edge Cases & Core Functionality", () => {
       await expect(
         verifySignature(testPayloadHash, ed25519Signature, invalidKey),
       ).rejects.toThrow(
-        `Unsupported public key type: "${invalidKey}". Must start with "ed25519:".`,
+        `Unsupported public key type: "${invalidKey}". Must start with "ed25519:" or "secp256k1:".`,
       );
     });
 
@@ -0,0 +1,131 @@
+import { base58 } from "@scure/base";
+import * as near from "near-api-js";
+import { describe, expect, it } from "vitest";
+import { hashPayload, verifySignature } from "../../src/crypto/crypto.js";
+import { isKeyPairString, signWithKeyPair } from "../../src/crypto/keyPair.js";
+
+describe("keyPair", () => {
+  const payloadHash = hashPayload(new Uint8Array([1, 2, 3, 4, 5]));
+
+  describe("isKeyPairString", () => {
+    it("should accept ed25519 and secp256k1 key strings only", () => {
+      expect(isKeyPairString("ed25519:abc")).toBe(true);
+      expect(isKeyPairString("secp256k1:abc")).toBe(true);
+      expect(isKeyPairString("rsa:abc")).toBe(false);
+      expect(isKeyPairString({})).toBe(false);
+    });
+  });
+
+  describe("ed25519", () => {
+    it("should sign like near-api-js", async () => {
+      const keyPair = near.KeyPair.fromRandom("ed25519");
+
+      const { signature, publicKey } = await signWithKeyPair(
+        keyPair.toString(),
+        payloadHash,
+      );
+
+      expect(publicKey).toBe(keyPair.getPublicKey().toString());
+      expect(signature).toEqual(keyPair.sign(payloadHash).signature);
+    });
+  });
+
+  describe("secp256k1", () => {
+    const keyPair = near.KeyPair.fromRandom("secp256k1");
+
+    it("should derive the NEAR public key string and produce a 65-byte signature", async () => {
+      const { signature, publicKey } = await signWithKeyPair(
+        keyPair.toString(),
+        payloadHash,
+      );
+
+      expect(publicKey).toBe(keyPair.getPublicKey().toString());
+      expect(signature.length).toBe(65);
+      expect([0, 1]).toContain(signature[64]);
+      expect(keyPair.verify(payloadHash, signature)).toBe(true);
+    });
+
+    it("should accept a 32-byte secret key", async () => {
+      const extended = base58.decode(
+        keyPair.toString().substring("secp256k1:".length),
+      );
+      const secretOnly = `secp256k1:${base58.encode(extended.slice(0, 32))}`;
+
+      expect((await signWithKeyPair(secretOnly, payloadHash)).publicKey).toBe(
+        keyPair.getPublicKey().toString(),
+      );
+    });
+
+    it("should verify signatures produced by near-api-js", async () => {
+      const { signature } = keyPair.sign(payloadHash);
+
+      await expect(
+        verifySignature(
+          payloadHash,
+          signature,
+          keyPair.getPublicKey().toString(),
+        ),
+      ).resolves.toBe(true);
+    });
+
+    it("should reject a tampered signature", async () => {
+      const { signature } = await signWithKeyPair(
+        keyPair.toString(),
+        payloadHash,
+      );
+      const tampered = signature.slice();
+      tampered[10] ^= 0xff;
+
+      await expect(
+        verifySignature(
+          payloadHash,
+          tampered,
+          keyPair.getPublicKey().toString(),
+        ),
+      ).rejects.toThrow("Secp256k1 signature verification failed.");
+    });
+
+    it("should reject a signature for another hash", async () => {
+      const { signature } = await signWithKeyPair(
+        keyPair.toString(),
+        payloadHash,
+      );
+
+      await expect(
+        verifySignature(
+          hashPayload(new Uint8Array([9])),
+          signature,
+          keyPair.getPublicKey().toString(),
+        ),
+      ).rejects.toThrow(expect.objectContaining({ code: "SIGNATURE_INVALID" }));
+    });
+
+    it("should reject a signature that is not 65 bytes", async () => {
+      const { signature } = await signWithKeyPair(
+        keyPair.toString(),
+        payloadHash,
+      );
+
+      await expect(
+        verifySignature(
+          payloadHash,
+          signature.slice(0, 64),
+          keyPair.getPublicKey().toString(),
+        ),
+      ).rejects.toThrow(
+        "Expected a 65-byte secp256k1 signature, got 64 bytes.",
+      );
+    });
+
+    it("should throw for a secret key of the wrong length", async () => {
+      await expect(
+        signWithKeyPair(
+          `secp256k1:${base58.encode(new Uint8Array(16))}`,
+          payloadHash,
+        ),
+      ).rejects.toThrow(
+        "Expected decoded private key to be 32 or 96 bytes for Secp256k1, got 16",
+      );
+    });
+  });
+});
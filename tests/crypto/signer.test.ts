@@ -0,0 +1,103 @@
+import * as near from "near-api-js";
+import { describe, expect, it } from "vitest";
+import { hashPayload, verifySignature } from "../../src/crypto/crypto.js";
+import { base58 } from "@scure/base";
+import {
+  createKeyPairSigner,
+  createWebCryptoSigner,
+  isCryptoKeyPair,
+  isSigner,
+} from "../../src/crypto/signer.js";
+
+describe("signer", () => {
+  const hash = hashPayload(new Uint8Array([1, 2, 3]));
+
+  describe("createKeyPairSigner", () => {
+    it.each(["ed25519", "secp256k1"] as const)(
+      "should sign with a %s KeyPair",
+      async (keyType) => {
+        const keyPair = near.KeyPair.fromRandom(keyType);
+        const signer = createKeyPairSigner(keyPair.toString(), "alice.near");
+
+        expect(signer.accountId).toBe("alice.near");
+        expect(await signer.getPublicKey()).toBe(
+          keyPair.getPublicKey().toString(),
+        );
+        await expect(
+          verifySignature(
+            hash,
+            await signer.signBytes(hash),
+            await signer.getPublicKey(),
+          ),
+        ).resolves.toBe(true);
+      },
+    );
+
+    it("should throw for an invalid KeyPair", () => {
+      expect(() => createKeyPairSigner("rsa:abc")).toThrow(
+        'Invalid KeyPair format: must start with "ed25519:" or "secp256k1:".',
+      );
+    });
+  });
+
+  describe("isSigner", () => {
+    it("should detect objects with getPublicKey and signBytes", () => {
+      expect(
+        isSigner(
+          createKeyPairSigner(near.KeyPair.fromRandom("ed25519").toString()),
+        ),
+      ).toBe(true);
+      expect(isSigner({ getPublicKey: () => "" })).toBe(false);
+      expect(isSigner("ed25519:abc")).toBe(false);
+      expect(isSigner(null)).toBe(false);
+    });
+  });
+
+  describe("createWebCryptoSigner", () => {
+    it("should derive the NEAR public key and sign with a non-extractable key", async () => {
+      const keyPair = (await crypto.subtle.generateKey(
+        { name: "Ed25519" },
+        false,
+        ["sign", "verify"],
+      )) as CryptoKeyPair;
+      const signer = createWebCryptoSigner(keyPair);
+
+      const publicKey = await signer.getPublicKey();
+      const raw = new Uint8Array(
+        await crypto.subtle.exportKey("raw", keyPair.publicKey),
+      );
+      expect(publicKey).toBe(`ed25519:${base58.encode(raw)}`);
+
+      const signature = await signer.signBytes(hash);
+      expect(signature.length).toBe(64);
+      await expect(verifySignature(hash, signature, publicKey)).resolves.toBe(
+        true,
+      );
+    });
+
+    it("should reject non-Ed25519 key pairs", async () => {
+      const keyPair = (await crypto.subtle.generateKey(
+        { name: "ECDSA", namedCurve: "P-256" },
+        false,
+        ["sign", "verify"],
+      )) as CryptoKeyPair;
+
+      expect(() => createWebCryptoSigner(keyPair)).toThrow(
+        'Unsupported CryptoKeyPair algorithm: "ECDSA". Must be "Ed25519".',
+      );
+    });
+  });
+
+  describe("isCryptoKeyPair", () => {
+    it("should detect CryptoKeyPairs", async () => {
+      const keyPair = await crypto.subtle.generateKey(
+        { name: "Ed25519" },
+        false,
+        ["sign", "verify"],
+      );
+      expect(isCryptoKeyPair(keyPair)).toBe(true);
+      expect(isCryptoKeyPair({ privateKey: {}, publicKey: {} })).toBe(false);
+      expect(isCryptoKeyPair("ed25519:abc")).toBe(false);
+    });
+  });
+});
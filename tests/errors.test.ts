@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import {
+  KeyOwnershipError,
+  NearAuthError,
+  OwnershipLookupError,
+  TokenMalformedError,
+} from "../src/errors.js";
+
+describe("NearAuthError", () => {
+  it("should carry a code, details and cause", () => {
+    const cause = new Error("fetch failed");
+    const error = new OwnershipLookupError("lookup failed", {
+      details: { accountId: "alice.near" },
+      cause,
+    });
+
+    expect(error).toBeInstanceOf(NearAuthError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.code).toBe("OWNERSHIP_LOOKUP_UNAVAILABLE");
+    expect(error.details).toEqual({ accountId: "alice.near" });
+    expect(error.cause).toBe(cause);
+    expect(error.message).toBe("lookup failed");
+  });
+
+  it("should use the subclass name", () => {
+    expect(new TokenMalformedError("bad").name).toBe("TokenMalformedError");
+    expect(new KeyOwnershipError("KEY_NOT_OWNED", "nope").name).toBe(
+      "KeyOwnershipError",
+    );
+  });
+
+  it("should default details to an empty object", () => {
+    expect(new TokenMalformedError("bad").details).toEqual({});
+  });
+});
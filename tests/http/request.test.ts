@@ -0,0 +1,145 @@
+import * as near from "near-api-js";
+import { describe, expect, it, vi } from "vitest";
+import {
+  createRequestMessage,
+  getBearerToken,
+  signRequest,
+  verifyRequest,
+} from "../../src/http/request.js";
+import { createMemoryNonceStore } from "../../src/utils/nonceStore.js";
+
+describe("HTTP request binding", () => {
+  const keyPair = near.KeyPair.fromRandom("ed25519");
+  const keyResolver = {
+    resolveAccessKey: vi.fn().mockResolvedValue({ type: "FullAccess" }),
+  };
+  const signOptions = {
+    signer: keyPair.toString(),
+    accountId: "alice.near",
+    recipient: "api.example.near",
+  };
+
+  const post = (url: string, body: string, token?: string) =>
+    new Request(url, {
+      method: "POST",
+      body,
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    });
+
+  describe("createRequestMessage", () => {
+    it("should cover the method, path, sorted query and body digest", async () => {
+      const message = await createRequestMessage(
+        post("https://api.example.com/items?b=2&a=1", ""),
+      );
+
+      expect(message).toBe(
+        [
+          "HTTP request",
+          "Method: POST",
+          "Path: /items",
+          "Query: a=1&b=2",
+          // SHA-256 of the empty string
+          "Body SHA-256: 47DEQpj8HBSa-_TImW-5JCeuQeRkm5NMpJWZG3hSuFU",
+        ].join("\n"),
+      );
+    });
+
+    it("should leave the body readable", async () => {
+      const request = post("https://api.example.com/items", '{"a":1}');
+
+      await createRequestMessage(request);
+      expect(await request.json()).toEqual({ a: 1 });
+    });
+
+    it("should throw if the body was already read", async () => {
+      const request = post("https://api.example.com/items", "x");
+      await request.text();
+
+      await expect(createRequestMessage(request)).rejects.toThrow(
+        "Request body has already been read.",
+      );
+    });
+  });
+
+  describe("getBearerToken", () => {
+    it("should read the bearer token", () => {
+      expect(
+        getBearerToken(
+          new Request("https://a.example", {
+            headers: { Authorization: "Bearer abc+/=" },
+          }),
+        ),
+      ).toBe("abc+/=");
+      expect(getBearerToken(new Request("https://a.example"))).toBeNull();
+      expect(
+        getBearerToken(
+          new Request("https://a.example", {
+            headers: { Authorization: "Basic abc" },
+          }),
+        ),
+      ).toBeNull();
+    });
+  });
+
+  describe("signRequest and verifyRequest", () => {
+    it("should accept the token for the request it was signed for", async () => {
+      const url = "https://api.example.com/items?a=1";
+      const token = await signRequest(post(url, '{"a":1}'), signOptions);
+
+      const result = await verifyRequest(post(url, '{"a":1}', token), {
+        keyResolver,
+        expectedRecipient: "api.example.near",
+      });
+      expect(result.accountId).toBe("alice.near");
+    });
+
+    it("should reject the token for any other request", async () => {
+      const url = "https://api.example.com/items?a=1";
+      const token = await signRequest(post(url, '{"a":1}'), signOptions);
+
+      const others = [
+        post(url, '{"a":2}', token),
+        post("https://api.example.com/other?a=1", '{"a":1}', token),
+        post("https://api.example.com/items?a=2", '{"a":1}', token),
+        new Request(url, { headers: { Authorization: `Bearer ${token}` } }),
+      ];
+      for (const request of others) {
+        await expect(verifyRequest(request, { keyResolver })).rejects.toThrow(
+          expect.objectContaining({ code: "MESSAGE_MISMATCH" }),
+        );
+      }
+    });
+
+    it("should reject a replayed request with a nonce store", async () => {
+      const nonceStore = createMemoryNonceStore();
+      const url = "https://api.example.com/items";
+      const token = await signRequest(post(url, "x"), signOptions);
+
+      await verifyRequest(post(url, "x", token), { keyResolver, nonceStore });
+      await expect(
+        verifyRequest(post(url, "x", token), { keyResolver, nonceStore }),
+      ).rejects.toThrow(expect.objectContaining({ code: "NONCE_REPLAYED" }));
+    });
+
+    it("should accept a token passed explicitly", async () => {
+      const request = new Request("https://api.example.com/items");
+      const token = await signRequest(request, signOptions);
+
+      await expect(
+        verifyRequest(request, { keyResolver, token }),
+      ).resolves.toBeDefined();
+    });
+
+    it("should report a missing token as malformed", async () => {
+      await expect(
+        verifyRequest(new Request("https://api.example.com/items")),
+      ).rejects.toThrow(
+        expect.objectContaining({
+          code: "TOKEN_MALFORMED",
+          message:
+            "Missing auth token: expected an Authorization: Bearer header.",
+        }),
+      );
+    });
+  });
+});
@@ -0,0 +1,329 @@
+import * as near from "near-api-js";
+import { describe, expect, it, vi } from "vitest";
+import { sign } from "../../src/auth/sign.js";
+import {
+  createNearAuthMiddleware,
+  extractToken,
+} from "../../src/middleware/core.js";
+import {
+  nearAuthExpress,
+  type ExpressLikeRequest,
+} from "../../src/middleware/express.js";
+import { nearAuthHono } from "../../src/middleware/hono.js";
+import type { VerifyOptions } from "../../src/types.js";
+
+describe("server middleware", () => {
+  const keyPair = near.KeyPair.fromRandom("ed25519");
+  const verifyOptions: VerifyOptions = {
+    keyResolver: {
+      resolveAccessKey: vi.fn().mockResolvedValue({ type: "FullAccess" }),
+    },
+    expectedRecipient: "api.example.near",
+  };
+  const createToken = (tokenEncoding?: "base64url") =>
+    sign("Sign in", {
+      signer: keyPair.toString(),
+      accountId: "alice.near",
+      recipient: "api.example.near",
+      tokenEncoding,
+    });
+
+  const withBearer = (token: string) =>
+    new Request("https://api.example.com/me", {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+
+  describe("extractToken", () => {
+    it("should read the token from the first source that has one", () => {
+      const request = new Request("https://a.example/?token=from-query", {
+        headers: {
+          Authorization: "Bearer from-header",
+          Cookie: "theme=dark; near_auth=from%2Bcookie",
+          "X-Auth-Token": "from-custom-header",
+        },
+      });
+
+      expect(extractToken(request, [{ from: "header" }])).toBe("from-header");
+      expect(
+        extractToken(request, [
+          { from: "cookie", name: "missing" },
+          { from: "cookie", name: "near_auth" },
+        ]),
+      ).toBe("from+cookie");
+      expect(extractToken(request, [{ from: "query", name: "token" }])).toBe(
+        "from-query",
+      );
+      expect(
+        extractToken(request, [
+          { from: "header", name: "x-auth-token", scheme: null },
+        ]),
+      ).toBe("from-custom-header");
+      expect(extractToken(request, [{ from: "query", name: "other" }])).toBe(
+        null,
+      );
+    });
+
+    it("should ignore other authorization schemes", () => {
+      const request = new Request("https://a.example", {
+        headers: { Authorization: "Basic abc" },
+      });
+
+      expect(extractToken(request, [{ from: "header" }])).toBeNull();
+    });
+
+    it("should restore a standard base64 token's '+' in the query", () => {
+      const request = new Request("https://a.example/?token=ab+c/d==");
+
+      expect(extractToken(request, [{ from: "query", name: "token" }])).toBe(
+        "ab+c/d==",
+      );
+    });
+  });
+
+  describe("createNearAuthMiddleware", () => {
+    it("should verify the bearer token", async () => {
+      const authenticate = createNearAuthMiddleware({ verifyOptions });
+
+      const outcome = await authenticate(withBearer(await createToken()));
+      expect(outcome).toMatchObject({
+        ok: true,
+        result: { accountId: "alice.near" },
+      });
+    });
+
+    it("should reject a missing token with 401 unless auth is optional", async () => {
+      const request = new Request("https://api.example.com/me");
+
+      const outcome = await createNearAuthMiddleware({ verifyOptions })(
+        request,
+      );
+      expect(outcome).toMatchObject({
+        ok: false,
+        status: 401,
+        reason: "TOKEN_MISSING",
+      });
+      if (!outcome.ok) {
+        expect(outcome.response.status).toBe(401);
+        expect(outcome.response.headers.get("www-authenticate")).toBe("Bearer");
+        expect(await outcome.response.json()).toEqual({
+          error: "TOKEN_MISSING",
+        });
+      }
+
+      await expect(
+        createNearAuthMiddleware({ verifyOptions, mode: "optional" })(request),
+      ).resolves.toEqual({ ok: true, result: null });
+    });
+
+    it("should reject an invalid token with 401 even if auth is optional", async () => {
+      const authenticate = createNearAuthMiddleware({
+        verifyOptions: { ...verifyOptions, expectedRecipient: "other.near" },
+        mode: "optional",
+      });
+
+      const outcome = await authenticate(withBearer(await createToken()));
+      expect(outcome).toMatchObject({
+        ok: false,
+        status: 401,
+        reason: "RECIPIENT_MISMATCH",
+      });
+      if (!outcome.ok) {
+        expect(outcome.response.headers.get("www-authenticate")).toBe(
+          'Bearer error="invalid_token"',
+        );
+      }
+    });
+
+    it("should reject a key without the required permission with 403", async () => {
+      const authenticate = createNearAuthMiddleware({
+        verifyOptions: {
+          ...verifyOptions,
+          requireFullAccessKey: false,
+          keyResolver: {
+            resolveAccessKey: vi.fn().mockResolvedValue({
+              type: "FunctionCall",
+              receiverId: "other.near",
+            }),
+          },
+        },
+      });
+
+      await expect(
+        authenticate(withBearer(await createToken())),
+      ).resolves.toMatchObject({
+        ok: false,
+        status: 403,
+        reason: "KEY_PERMISSION_DENIED",
+      });
+    });
+
+    it("should reject with 403 when authorize returns false", async () => {
+      const authorize = vi.fn().mockResolvedValue(false);
+      const authenticate = createNearAuthMiddleware({
+        verifyOptions,
+        authorize,
+      });
+      const request = withBearer(await createToken());
+
+      await expect(authenticate(request)).resolves.toMatchObject({
+        ok: false,
+        status: 403,
+        reason: "FORBIDDEN",
+      });
+      expect(authorize).toHaveBeenCalledWith(
+        expect.objectContaining({ accountId: "alice.near" }),
+        request,
+      );
+    });
+
+    it("should report infrastructure failures with 503", async () => {
+      const authenticate = createNearAuthMiddleware({
+        verifyOptions: {
+          ...verifyOptions,
+          nonceStore: {
+            consume: () => {
+              throw new Error("connection refused");
+            },
+          },
+        },
+      });
+
+      await expect(
+        authenticate(withBearer(await createToken())),
+      ).resolves.toMatchObject({
+        ok: false,
+        status: 503,
+        reason: "NONCE_STORE_UNAVAILABLE",
+      });
+    });
+
+    it("should throw at creation for an invalid network", () => {
+      expect(() =>
+        createNearAuthMiddleware({
+          verifyOptions: { network: "betanet" as any },
+        }),
+      ).toThrow(expect.objectContaining({ code: "CONFIGURATION_INVALID" }));
+    });
+
+    it("should read tokens from the configured sources", async () => {
+      const authenticate = createNearAuthMiddleware({
+        verifyOptions,
+        tokenSources: [
+          { from: "cookie", name: "near_auth" },
+          { from: "query", name: "token" },
+        ],
+      });
+      const token = await createToken("base64url");
+
+      await expect(
+        authenticate(
+          new Request("https://api.example.com/me", {
+            headers: { Cookie: `near_auth=${token}` },
+          }),
+        ),
+      ).resolves.toMatchObject({ ok: true });
+      await expect(
+        authenticate(new Request(`https://api.example.com/me?token=${token}`)),
+      ).resolves.toMatchObject({ ok: true });
+      await expect(authenticate(withBearer(token))).resolves.toMatchObject({
+        ok: false,
+        reason: "TOKEN_MISSING",
+      });
+    });
+  });
+
+  describe("nearAuthExpress", () => {
+    const createResponse = () => ({
+      status: vi.fn(),
+      setHeader: vi.fn(),
+      send: vi.fn(),
+    });
+
+    it("should set req.nearAuth and call next", async () => {
+      const req: ExpressLikeRequest = {
+        method: "GET",
+        originalUrl: "/me",
+        headers: {
+          host: "api.example.com",
+          authorization: `Bearer ${await createToken()}`,
+        },
+      };
+      const res = createResponse();
+      const next = vi.fn();
+
+      await nearAuthExpress({ verifyOptions })(req, res, next);
+      expect(next).toHaveBeenCalledWith();
+      expect(req.nearAuth?.accountId).toBe("alice.near");
+      expect(res.send).not.toHaveBeenCalled();
+    });
+
+    it("should read query tokens from the original URL", async () => {
+      const token = await createToken("base64url");
+      const req: ExpressLikeRequest = {
+        method: "GET",
+        originalUrl: `/api/me?token=${token}`,
+        url: "/me",
+        headers: {},
+      };
+      const next = vi.fn();
+
+      await nearAuthExpress({
+        verifyOptions,
+        tokenSources: [{ from: "query", name: "token" }],
+      })(req, createResponse(), next);
+      expect(next).toHaveBeenCalledWith();
+      expect(req.nearAuth?.accountId).toBe("alice.near");
+    });
+
+    it("should send the failure response", async () => {
+      const req: ExpressLikeRequest = {
+        method: "GET",
+        originalUrl: "/me",
+        headers: {},
+      };
+      const res = createResponse();
+      const next = vi.fn();
+
+      await nearAuthExpress({ verifyOptions })(req, res, next);
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(res.setHeader).toHaveBeenCalledWith(
+        "content-type",
+        "application/json",
+      );
+      expect(res.setHeader).toHaveBeenCalledWith("www-authenticate", "Bearer");
+      expect(res.send).toHaveBeenCalledWith('{"error":"TOKEN_MISSING"}');
+    });
+  });
+
+  describe("nearAuthHono", () => {
+    it("should set the nearAuth variable and call next", async () => {
+      const set = vi.fn();
+      const next = vi.fn().mockResolvedValue(undefined);
+
+      const response = await nearAuthHono({ verifyOptions })(
+        { req: { raw: withBearer(await createToken()) }, set },
+        next,
+      );
+      expect(response).toBeUndefined();
+      expect(set).toHaveBeenCalledWith(
+        "nearAuth",
+        expect.objectContaining({ accountId: "alice.near" }),
+      );
+      expect(next).toHaveBeenCalled();
+    });
+
+    it("should return the failure response", async () => {
+      const set = vi.fn();
+      const next = vi.fn();
+
+      const response = await nearAuthHono({ verifyOptions })(
+        { req: { raw: new Request("https://api.example.com/me") }, set },
+        next,
+      );
+      expect(response?.status).toBe(401);
+      expect(set).not.toHaveBeenCalled();
+      expect(next).not.toHaveBeenCalled();
+    });
+  });
+});
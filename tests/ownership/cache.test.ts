@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createMemoryOwnershipCache,
+  lookupWithCache,
+  ownershipCacheKey,
+} from "../../src/ownership/cache.js";
+
+describe("ownership cache", () => {
+  const key = ownershipCacheKey(
+    "mainnet",
+    "alice.near",
+    "ed25519:8hSHprDq2StXwMtNd43wDTXQYsjXcD4MJxUTvwtnmM4T",
+    true,
+  );
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("createMemoryOwnershipCache", () => {
+    it("should return cached entries and count hits and misses", () => {
+      const cache = createMemoryOwnershipCache();
+
+      expect(cache.get(key)).toBeUndefined();
+      cache.set(key, { permission: { type: "FullAccess" } });
+      expect(cache.get(key)).toEqual({ permission: { type: "FullAccess" } });
+
+      expect(cache.getStats()).toEqual({
+        hits: 1,
+        misses: 1,
+        evictions: 0,
+        size: 1,
+      });
+    });
+
+    it("should expire positive and negative entries after their TTLs", () => {
+      const cache = createMemoryOwnershipCache({
+        positiveTtl: 1000,
+        negativeTtl: 100,
+      });
+      cache.set("found", { permission: { type: "FullAccess" } });
+      cache.set("missing", { permission: null });
+
+      vi.advanceTimersByTime(101);
+      expect(cache.get("missing")).toBeUndefined();
+      expect(cache.get("found")).toBeDefined();
+
+      vi.advanceTimersByTime(900);
+      expect(cache.get("found")).toBeUndefined();
+      expect(cache.getStats().size).toBe(0);
+    });
+
+    it("should evict the least recently used entry beyond maxSize", () => {
+      const cache = createMemoryOwnershipCache({ maxSize: 2 });
+      cache.set("a", { permission: null });
+      cache.set("b", { permission: null });
+      cache.get("a"); // "b" is now least recently used
+      cache.set("c", { permission: null });
+
+      expect(cache.get("b")).toBeUndefined();
+      expect(cache.get("a")).toBeDefined();
+      expect(cache.get("c")).toBeDefined();
+      expect(cache.getStats().evictions).toBe(1);
+    });
+
+    it("should not store entries with a non-positive TTL", () => {
+      const cache = createMemoryOwnershipCache({ negativeTtl: 0 });
+      cache.set(key, { permission: null });
+      expect(cache.getStats().size).toBe(0);
+    });
+  });
+
+  describe("lookupWithCache", () => {
+    it("should load on a miss and serve from the cache afterwards", async () => {
+      const cache = createMemoryOwnershipCache();
+      const load = vi.fn().mockResolvedValue({ type: "FullAccess" });
+
+      await expect(lookupWithCache(cache, key, load)).resolves.toEqual({
+        permission: { type: "FullAccess" },
+        hit: false,
+      });
+      await expect(lookupWithCache(cache, key, load)).resolves.toEqual({
+        permission: { type: "FullAccess" },
+        hit: true,
+      });
+      expect(load).toHaveBeenCalledTimes(1);
+    });
+
+    it("should cache negative lookups", async () => {
+      const cache = createMemoryOwnershipCache();
+      const load = vi.fn().mockResolvedValue(null);
+
+      await lookupWithCache(cache, key, load);
+      const result = await lookupWithCache(cache, key, load);
+
+      expect(result).toEqual({ permission: null, hit: true });
+      expect(load).toHaveBeenCalledTimes(1);
+    });
+
+    it("should de-duplicate concurrent identical lookups", async () => {
+      vi.useRealTimers();
+      const cache = createMemoryOwnershipCache();
+      let resolveLoad!: (value: null) => void;
+      const load = vi.fn(
+        () => new Promise<null>((resolve) => (resolveLoad = resolve)),
+      );
+
+      const lookups = Promise.all([
+        lookupWithCache(cache, key, load),
+        lookupWithCache(cache, key, load),
+        lookupWithCache(cache, key, load),
+      ]);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      resolveLoad(null);
+
+      await expect(lookups).resolves.toHaveLength(3);
+      expect(load).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not cache failed lookups", async () => {
+      const cache = createMemoryOwnershipCache();
+      const load = vi
+        .fn()
+        .mockRejectedValueOnce(new Error("Indexer down"))
+        .mockResolvedValueOnce({ type: "FullAccess" });
+
+      await expect(lookupWithCache(cache, key, load)).rejects.toThrow(
+        "Indexer down",
+      );
+      await expect(lookupWithCache(cache, key, load)).resolves.toEqual({
+        permission: { type: "FullAccess" },
+        hit: false,
+      });
+    });
+
+    it("should work with an external async store", async () => {
+      const store = new Map<string, any>();
+      const cache = {
+        get: vi.fn(async (k: string) => store.get(k)),
+        set: vi.fn(async (k: string, entry: any) => {
+          store.set(k, entry);
+        }),
+      };
+      const load = vi.fn().mockResolvedValue({ type: "FullAccess" });
+
+      await lookupWithCache(cache, key, load);
+      const result = await lookupWithCache(cache, key, load);
+
+      expect(result.hit).toBe(true);
+      expect(cache.set).toHaveBeenCalledWith(key, {
+        permission: { type: "FullAccess" },
+      });
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createFastNearKeyResolver } from "../../src/ownership/fastnear.js";
+
+// Mock global fetch
+global.fetch = vi.fn();
+
+describe("createFastNearKeyResolver", () => {
+  const publicKey = "ed25519:8hSHprDq2StXwMtNd43wDTXQYsjXcD4MJxUTvwtnmM4T";
+
+  const mockAccountIds = (accountIds: string[]) =>
+    (fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ account_ids: accountIds }),
+    });
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should resolve a full access key on testnet for .testnet accounts", async () => {
+    mockAccountIds(["alice.testnet"]);
+    const resolver = createFastNearKeyResolver();
+
+    const permission = await resolver.resolveAccessKey(
+      "alice.testnet",
+      publicKey,
+      { requireFullAccessKey: true },
+    );
+
+    expect(permission).toEqual({ type: "FullAccess" });
+    expect(fetch).toHaveBeenCalledWith(
+      `https://test.api.fastnear.com/v0/public_key/${publicKey}`,
+    );
+  });
+
+  it("should use mainnet for other accounts", async () => {
+    mockAccountIds(["alice.near"]);
+    const resolver = createFastNearKeyResolver();
+
+    await resolver.resolveAccessKey("alice.near", publicKey, {
+      requireFullAccessKey: true,
+    });
+
+    expect(fetch).toHaveBeenCalledWith(
+      `https://api.fastnear.com/v0/public_key/${publicKey}`,
+    );
+  });
+
+  it("should use a custom baseUrl", async () => {
+    mockAccountIds(["alice.near"]);
+    const resolver = createFastNearKeyResolver({
+      baseUrl: "http://localhost:3030",
+    });
+
+    await resolver.resolveAccessKey("alice.near", publicKey, {
+      requireFullAccessKey: true,
+    });
+
+    expect(fetch).toHaveBeenCalledWith(
+      `http://localhost:3030/v0/public_key/${publicKey}`,
+    );
+  });
+
+  it("should return null without consulting RPC when full access is required", async () => {
+    mockAccountIds(["someone-else.near"]);
+    const resolver = createFastNearKeyResolver();
+
+    const permission = await resolver.resolveAccessKey(
+      "alice.near",
+      publicKey,
+      { requireFullAccessKey: true },
+    );
+
+    expect(permission).toBeNull();
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should load function call permissions over RPC when full access is not required", async () => {
+    mockAccountIds([]);
+    (fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        result: {
+          permission: {
+            FunctionCall: {
+              allowance: null,
+              receiver_id: "app.near",
+              method_names: [],
+            },
+          },
+        },
+      }),
+    });
+    const resolver = createFastNearKeyResolver({
+      rpcUrl: "http://localhost:3030",
+    });
+
+    const permission = await resolver.resolveAccessKey(
+      "alice.near",
+      publicKey,
+      { requireFullAccessKey: false },
+    );
+
+    expect(permission).toEqual({
+      type: "FunctionCall",
+      receiverId: "app.near",
+      methodNames: [],
+    });
+    expect((fetch as ReturnType<typeof vi.fn>).mock.calls[1][0]).toBe(
+      "http://localhost:3030",
+    );
+  });
+
+  it("should return null if the key is not on the account at all", async () => {
+    mockAccountIds([]);
+    (fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        error: { name: "HANDLER_ERROR", cause: { name: "UNKNOWN_ACCESS_KEY" } },
+      }),
+    });
+    const resolver = createFastNearKeyResolver();
+
+    const permission = await resolver.resolveAccessKey(
+      "alice.near",
+      publicKey,
+      { requireFullAccessKey: false },
+    );
+
+    expect(permission).toBeNull();
+  });
+
+  it("should throw on a non-ok response", async () => {
+    (fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+      ok: false,
+      status: 503,
+      statusText: "Service Unavailable",
+    });
+    const resolver = createFastNearKeyResolver();
+
+    await expect(
+      resolver.resolveAccessKey("alice.near", publicKey, {
+        requireFullAccessKey: true,
+      }),
+    ).rejects.toThrow("FastNEAR request failed with status 503");
+  });
+
+  it("should throw on an unexpected response format", async () => {
+    (fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ unexpected: "format" }),
+    });
+    const resolver = createFastNearKeyResolver();
+
+    await expect(
+      resolver.resolveAccessKey("alice.near", publicKey, {
+        requireFullAccessKey: true,
+      }),
+    ).rejects.toThrow("Unexpected FastNEAR response format");
+  });
+});
@@ -0,0 +1,39 @@
+import { base58, hex } from "@scure/base";
+import { describe, expect, it } from "vitest";
+import {
+  isImplicitAccountId,
+  isImplicitAccountKey,
+} from "../../src/ownership/implicit.js";
+
+describe("implicit accounts", () => {
+  const publicKeyBytes = new Uint8Array(32).map((_, i) => i);
+  const publicKey = `ed25519:${base58.encode(publicKeyBytes)}`;
+  const implicitAccountId = hex.encode(publicKeyBytes);
+
+  it("should recognise 64-character lowercase hex account IDs", () => {
+    expect(isImplicitAccountId(implicitAccountId)).toBe(true);
+    expect(isImplicitAccountId(implicitAccountId.toUpperCase())).toBe(false);
+    expect(isImplicitAccountId(implicitAccountId.slice(2))).toBe(false);
+    expect(isImplicitAccountId("alice.near")).toBe(false);
+  });
+
+  it("should match an implicit account ID to its public key", () => {
+    expect(isImplicitAccountKey(implicitAccountId, publicKey)).toBe(true);
+  });
+
+  it("should not match a different public key", () => {
+    const otherKey = `ed25519:${base58.encode(new Uint8Array(32).fill(7))}`;
+    expect(isImplicitAccountKey(implicitAccountId, otherKey)).toBe(false);
+  });
+
+  it("should not match named accounts or malformed keys", () => {
+    expect(isImplicitAccountKey("alice.near", publicKey)).toBe(false);
+    expect(isImplicitAccountKey(implicitAccountId, "ed25519:0OIl")).toBe(false);
+    expect(
+      isImplicitAccountKey(
+        implicitAccountId,
+        `secp256k1:${publicKey.slice(8)}`,
+      ),
+    ).toBe(false);
+  });
+});
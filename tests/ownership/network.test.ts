@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import {
+  NETWORKS,
+  checkNetworkOptions,
+  createNetworkKeyResolver,
+  isAccountOnNetwork,
+  resolveNetwork,
+} from "../../src/ownership/network.js";
+
+describe("network", () => {
+  describe("resolveNetwork", () => {
+    it("should infer the network from the account suffix when none is configured", () => {
+      expect(resolveNetwork(undefined, "alice.testnet")).toBe(NETWORKS.testnet);
+      expect(resolveNetwork(undefined, "alice.near")).toBe(NETWORKS.mainnet);
+    });
+
+    it("should resolve named networks", () => {
+      expect(resolveNetwork("testnet", "alice.near")).toBe(NETWORKS.testnet);
+      expect(resolveNetwork("mainnet", "alice.testnet")).toBe(NETWORKS.mainnet);
+    });
+
+    it("should pass through custom network configs", () => {
+      const localnet = {
+        networkId: "localnet",
+        rpcUrl: "http://localhost:3030",
+      };
+      expect(resolveNetwork(localnet, "alice.test.near")).toBe(localnet);
+    });
+
+    it("should throw for unknown network names", () => {
+      expect(() => resolveNetwork("betanet" as any, "alice.near")).toThrow(
+        expect.objectContaining({
+          code: "CONFIGURATION_INVALID",
+          message: 'Unknown network: "betanet".',
+        }),
+      );
+    });
+  });
+
+  describe("isAccountOnNetwork", () => {
+    const implicitAccountId =
+      "98793cd91a3f870fb126f66285808c7e094afcfc4eda8a970f6648cdf0dbd6de";
+
+    it("should reject .testnet accounts on mainnet", () => {
+      expect(isAccountOnNetwork("alice.testnet", NETWORKS.mainnet)).toBe(false);
+      expect(isAccountOnNetwork("alice.near", NETWORKS.mainnet)).toBe(true);
+      expect(isAccountOnNetwork("user.sweat", NETWORKS.mainnet)).toBe(true);
+    });
+
+    it("should only accept .testnet accounts on testnet", () => {
+      expect(isAccountOnNetwork("alice.testnet", NETWORKS.testnet)).toBe(true);
+      expect(isAccountOnNetwork("alice.near", NETWORKS.testnet)).toBe(false);
+    });
+
+    it("should accept implicit accounts on every network", () => {
+      expect(isAccountOnNetwork(implicitAccountId, NETWORKS.mainnet)).toBe(
+        true,
+      );
+      expect(isAccountOnNetwork(implicitAccountId, NETWORKS.testnet)).toBe(
+        true,
+      );
+      expect(
+        isAccountOnNetwork(
+          "0x32be343b94f860124dc4fee278fdcbd38c102d88",
+          NETWORKS.testnet,
+        ),
+      ).toBe(true);
+    });
+
+    it("should accept any account on a custom network without isNetworkAccount", () => {
+      expect(
+        isAccountOnNetwork("alice.testnet", { networkId: "localnet" }),
+      ).toBe(true);
+    });
+  });
+
+  describe("checkNetworkOptions", () => {
+    it("should accept valid network options", () => {
+      expect(() => checkNetworkOptions(undefined)).not.toThrow();
+      expect(() => checkNetworkOptions({ network: "testnet" })).not.toThrow();
+      expect(() =>
+        checkNetworkOptions({
+          network: { networkId: "localnet" },
+          keyResolver: { resolveAccessKey: async () => null },
+        }),
+      ).not.toThrow();
+    });
+
+    it("should reject unknown networks and networks without endpoints", () => {
+      expect(() => checkNetworkOptions({ network: "betanet" as any })).toThrow(
+        expect.objectContaining({ code: "CONFIGURATION_INVALID" }),
+      );
+      expect(() =>
+        checkNetworkOptions({ network: { networkId: "localnet" } }),
+      ).toThrow(
+        expect.objectContaining({
+          code: "CONFIGURATION_INVALID",
+          message:
+            'Network "localnet" has no fastnearUrl or rpcUrl; provide a keyResolver.',
+        }),
+      );
+    });
+  });
+
+  describe("createNetworkKeyResolver", () => {
+    it("should require a fastnearUrl or rpcUrl", () => {
+      expect(() => createNetworkKeyResolver({ networkId: "localnet" })).toThrow(
+        'Network "localnet" has no fastnearUrl or rpcUrl; provide a keyResolver.',
+      );
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createRpcKeyResolver } from "../../src/ownership/rpc.js";
+
+// Mock global fetch
+global.fetch = vi.fn();
+
+describe("createRpcKeyResolver", () => {
+  const publicKey = "ed25519:8hSHprDq2StXwMtNd43wDTXQYsjXcD4MJxUTvwtnmM4T";
+  const context = { requireFullAccessKey: false };
+
+  const mockRpcResponse = (body: unknown) =>
+    (fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+      ok: true,
+      json: async () => body,
+    });
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should query view_access_key at final finality against the configured rpcUrl", async () => {
+    mockRpcResponse({ result: { nonce: 1, permission: "FullAccess" } });
+    const resolver = createRpcKeyResolver({ rpcUrl: "http://localhost:3030" });
+
+    const permission = await resolver.resolveAccessKey(
+      "alice.test.near",
+      publicKey,
+      context,
+    );
+
+    expect(permission).toEqual({ type: "FullAccess" });
+    const [url, init] = (fetch as ReturnType<typeof vi.fn>).mock.calls[0];
+    expect(url).toBe("http://localhost:3030");
+    expect(init.method).toBe("POST");
+    expect(JSON.parse(init.body).params).toEqual({
+      request_type: "view_access_key",
+      finality: "final",
+      account_id: "alice.test.near",
+      public_key: publicKey,
+    });
+  });
+
+  it("should default to testnet RPC for .testnet accounts and mainnet otherwise", async () => {
+    mockRpcResponse({ result: { permission: "FullAccess" } });
+    mockRpcResponse({ result: { permission: "FullAccess" } });
+    const resolver = createRpcKeyResolver();
+
+    await resolver.resolveAccessKey("alice.testnet", publicKey, context);
+    await resolver.resolveAccessKey("alice.near", publicKey, context);
+
+    const calls = (fetch as ReturnType<typeof vi.fn>).mock.calls;
+    expect(calls[0][0]).toBe("https://rpc.testnet.near.org");
+    expect(calls[1][0]).toBe("https://rpc.mainnet.near.org");
+  });
+
+  it("should map a FunctionCall permission", async () => {
+    mockRpcResponse({
+      result: {
+        permission: {
+          FunctionCall: {
+            allowance: "250000000000000000000000",
+            receiver_id: "app.near",
+            method_names: ["login"],
+          },
+        },
+      },
+    });
+    const resolver = createRpcKeyResolver();
+
+    const permission = await resolver.resolveAccessKey(
+      "alice.near",
+      publicKey,
+      context,
+    );
+
+    expect(permission).toEqual({
+      type: "FunctionCall",
+      receiverId: "app.near",
+      methodNames: ["login"],
+    });
+  });
+
+  it("should return null for an unknown access key or account", async () => {
+    mockRpcResponse({
+      error: { name: "HANDLER_ERROR", cause: { name: "UNKNOWN_ACCESS_KEY" } },
+    });
+    mockRpcResponse({
+      error: { name: "HANDLER_ERROR", cause: { name: "UNKNOWN_ACCOUNT" } },
+    });
+    const resolver = createRpcKeyResolver();
+
+    await expect(
+      resolver.resolveAccessKey("alice.near", publicKey, context),
+    ).resolves.toBeNull();
+    await expect(
+      resolver.resolveAccessKey("nobody.near", publicKey, context),
+    ).resolves.toBeNull();
+  });
+
+  it("should return null for legacy 'does not exist' result errors", async () => {
+    mockRpcResponse({
+      result: {
+        error: `access key ${publicKey} does not exist while viewing`,
+      },
+    });
+    const resolver = createRpcKeyResolver();
+
+    await expect(
+      resolver.resolveAccessKey("alice.near", publicKey, context),
+    ).resolves.toBeNull();
+  });
+
+  it("should throw for other RPC errors", async () => {
+    mockRpcResponse({
+      error: { name: "HANDLER_ERROR", cause: { name: "UNAVAILABLE_SHARD" } },
+    });
+    const resolver = createRpcKeyResolver();
+
+    await expect(
+      resolver.resolveAccessKey("alice.near", publicKey, context),
+    ).rejects.toThrow("RPC error: UNAVAILABLE_SHARD");
+  });
+
+  it("should throw for a malformed result", async () => {
+    mockRpcResponse({ result: { permission: { FunctionCall: {} } } });
+    mockRpcResponse({ result: { keys: [{ public_key: publicKey }] } });
+    const resolver = createRpcKeyResolver();
+
+    await expect(
+      resolver.resolveAccessKey("alice.near", publicKey, context),
+    ).rejects.toThrow("Unexpected RPC response format");
+    await expect(resolver.listAccessKeys("alice.near")).rejects.toThrow(
+      "Unexpected RPC response format",
+    );
+  });
+
+  it("should throw on a non-ok HTTP response", async () => {
+    (fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+      ok: false,
+      status: 502,
+      statusText: "Bad Gateway",
+    });
+    const resolver = createRpcKeyResolver();
+
+    await expect(
+      resolver.resolveAccessKey("alice.near", publicKey, context),
+    ).rejects.toThrow("RPC request failed with status 502 Bad Gateway");
+  });
+
+  it("should list access keys with view_access_key_list", async () => {
+    mockRpcResponse({
+      result: {
+        keys: [
+          {
+            public_key: publicKey,
+            access_key: { nonce: 1, permission: "FullAccess" },
+          },
+          {
+            public_key: "ed25519:DKFEx1W5rxMNVAnqJ25Cq47Xvys4zZsrJg8bzgT971vt",
+            access_key: {
+              nonce: 2,
+              permission: {
+                FunctionCall: {
+                  allowance: null,
+                  receiver_id: "app.near",
+                  method_names: [],
+                },
+              },
+            },
+          },
+        ],
+      },
+    });
+    const resolver = createRpcKeyResolver();
+
+    const keys = await resolver.listAccessKeys("alice.near");
+
+    expect(keys).toEqual([
+      { publicKey, permission: { type: "FullAccess" } },
+      {
+        publicKey: "ed25519:DKFEx1W5rxMNVAnqJ25Cq47Xvys4zZsrJg8bzgT971vt",
+        permission: {
+          type: "FunctionCall",
+          receiverId: "app.near",
+          methodNames: [],
+        },
+      },
+    ]);
+    const [, init] = (fetch as ReturnType<typeof vi.fn>).mock.calls[0];
+    expect(JSON.parse(init.body).params.request_type).toBe(
+      "view_access_key_list",
+    );
+  });
+});
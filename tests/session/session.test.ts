@@ -0,0 +1,321 @@
+import { base64urlnopad } from "@scure/base";
+import * as near from "near-api-js";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  issueSession,
+  refreshSession,
+  verifySession,
+} from "../../src/session/session.js";
+import type { VerificationResult } from "../../src/types.js";
+import { createMemoryNonceStore } from "../../src/utils/nonceStore.js";
+
+describe("sessions", () => {
+  const secret = "a-server-secret-of-at-least-32-bytes!";
+  const result: VerificationResult = {
+    accountId: "alice.near",
+    message: "Sign in",
+    recipient: "your-service.near",
+    publicKey: "ed25519:8hSHprDq2StXwMtNd43wDTXQYsjXcD4MJxUTvwtnmM4T",
+    networkId: "mainnet",
+    keyPermission: { type: "FullAccess" },
+    ownershipSource: "resolver",
+    tokenVersion: 1,
+  };
+
+  const decodePart = (token: string, index: number) =>
+    JSON.parse(
+      new TextDecoder().decode(base64urlnopad.decode(token.split(".")[index])),
+    );
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("issueSession", () => {
+    it("should issue an HS256 JWT carrying the account, key and recipient", () => {
+      vi.useFakeTimers({ now: 1_700_000_000_000 });
+
+      const session = issueSession(result, {
+        secret,
+        ttl: 15 * 60 * 1000,
+        claims: { role: "admin" },
+      });
+
+      expect(session.expiresAt).toBe(1_700_000_900_000);
+      expect(session.refreshToken).toBeUndefined();
+      expect(decodePart(session.token, 0)).toEqual({
+        alg: "HS256",
+        typ: "JWT",
+      });
+      expect(decodePart(session.token, 1)).toMatchObject({
+        sub: "alice.near",
+        aud: "your-service.near",
+        publicKey: result.publicKey,
+        iat: 1_700_000_000,
+        exp: 1_700_000_900,
+        role: "admin",
+      });
+    });
+
+    it("should require exactly one key", () => {
+      expect(() => issueSession(result, { ttl: 1000 })).toThrow(
+        "Exactly one of secret or keyPair is required.",
+      );
+      expect(() =>
+        issueSession(result, {
+          secret,
+          keyPair: near.KeyPair.fromRandom("ed25519").toString(),
+          ttl: 1000,
+        }),
+      ).toThrow("Exactly one of secret or keyPair is required.");
+    });
+
+    it("should not let claims override reserved claims", () => {
+      expect(() =>
+        issueSession(result, {
+          secret,
+          ttl: 1000,
+          claims: { sub: "bob.near" },
+        }),
+      ).toThrow("Reserved session claims: sub.");
+    });
+  });
+
+  describe("verifySession", () => {
+    it("should return the session claims", () => {
+      vi.useFakeTimers({ now: 1_700_000_000_000 });
+      const { token } = issueSession(result, {
+        secret,
+        ttl: 60_000,
+        claims: { role: "admin" },
+        issuer: "api.example.com",
+      });
+
+      expect(
+        verifySession(token, {
+          secret,
+          expectedRecipient: "your-service.near",
+          issuer: "api.example.com",
+        }),
+      ).toEqual({
+        accountId: "alice.near",
+        publicKey: result.publicKey,
+        recipient: "your-service.near",
+        networkId: "mainnet",
+        issuedAt: 1_700_000_000_000,
+        expiresAt: 1_700_000_060_000,
+        authenticatedAt: 1_700_000_000_000,
+        claims: { role: "admin" },
+      });
+    });
+
+    it("should verify EdDSA tokens with the public key", () => {
+      const keyPair = near.KeyPair.fromRandom("ed25519");
+      const { token } = issueSession(result, {
+        keyPair: keyPair.toString(),
+        ttl: 60_000,
+      });
+
+      expect(decodePart(token, 0).alg).toBe("EdDSA");
+      expect(
+        verifySession(token, {
+          publicKey: keyPair.getPublicKey().toString(),
+        }).accountId,
+      ).toBe("alice.near");
+      expect(() =>
+        verifySession(token, {
+          publicKey: near.KeyPair.fromRandom("ed25519")
+            .getPublicKey()
+            .toString(),
+        }),
+      ).toThrow(expect.objectContaining({ code: "SESSION_INVALID" }));
+    });
+
+    it("should reject tokens signed with another secret or algorithm", () => {
+      const { token } = issueSession(result, { secret, ttl: 60_000 });
+
+      expect(() =>
+        verifySession(token, { secret: "another-secret-of-at-least-32-bytes" }),
+      ).toThrow("Session verification failed: invalid signature.");
+      expect(() =>
+        verifySession(token, {
+          publicKey: near.KeyPair.fromRandom("ed25519")
+            .getPublicKey()
+            .toString(),
+        }),
+      ).toThrow(
+        "Session verification failed: expected algorithm EdDSA, got HS256.",
+      );
+    });
+
+    it("should reject unsigned and tampered tokens", () => {
+      const { token } = issueSession(result, { secret, ttl: 60_000 });
+      const [header, payload, signature] = token.split(".");
+      const encode = (value: unknown) =>
+        base64urlnopad.encode(new TextEncoder().encode(JSON.stringify(value)));
+      const tampered = encode({
+        ...decodePart(token, 1),
+        sub: "bob.near",
+      });
+
+      expect(() =>
+        verifySession(`${encode({ alg: "none" })}.${payload}.`, { secret }),
+      ).toThrow(expect.objectContaining({ code: "SESSION_INVALID" }));
+      expect(() =>
+        verifySession(`${header}.${tampered}.${signature}`, { secret }),
+      ).toThrow("Session verification failed: invalid signature.");
+      expect(() => verifySession("not-a-jwt", { secret })).toThrow(
+        "Session verification failed: not a compact JWT.",
+      );
+    });
+
+    it("should reject expired tokens", () => {
+      vi.useFakeTimers({ now: 1_700_000_000_000 });
+      const { token } = issueSession(result, { secret, ttl: 60_000 });
+
+      vi.setSystemTime(1_700_000_060_000);
+      expect(() => verifySession(token, { secret })).toThrow(
+        expect.objectContaining({ code: "SESSION_EXPIRED" }),
+      );
+    });
+
+    it("should reject an unexpected recipient", () => {
+      const { token } = issueSession(result, { secret, ttl: 60_000 });
+
+      expect(() =>
+        verifySession(token, { secret, expectedRecipient: "other.near" }),
+      ).toThrow(expect.objectContaining({ code: "RECIPIENT_MISMATCH" }));
+    });
+
+    it("should not accept refresh tokens as session tokens", () => {
+      const { refreshToken } = issueSession(result, {
+        secret,
+        ttl: 60_000,
+        refreshTtl: 3_600_000,
+      });
+
+      expect(() => verifySession(refreshToken!, { secret })).toThrow(
+        "Session verification failed: expected a session token.",
+      );
+    });
+  });
+
+  describe("refreshSession", () => {
+    it("should issue new tokens with the original claims and refresh expiry", async () => {
+      vi.useFakeTimers({ now: 1_700_000_000_000 });
+      const first = issueSession(result, {
+        secret,
+        ttl: 60_000,
+        refreshTtl: 3_600_000,
+        claims: { role: "admin" },
+      });
+
+      vi.setSystemTime(1_700_000_120_000);
+      expect(() => verifySession(first.token, { secret })).toThrow(
+        expect.objectContaining({ code: "SESSION_EXPIRED" }),
+      );
+
+      const second = await refreshSession(first.refreshToken!, {
+        secret,
+        ttl: 60_000,
+      });
+      expect(second.expiresAt).toBe(1_700_000_180_000);
+      expect(second.refreshExpiresAt).toBe(first.refreshExpiresAt);
+      expect(second.refreshToken).not.toBe(first.refreshToken);
+      expect(verifySession(second.token, { secret })).toMatchObject({
+        accountId: "alice.near",
+        issuedAt: 1_700_000_120_000,
+        authenticatedAt: 1_700_000_000_000,
+        claims: { role: "admin" },
+      });
+    });
+
+    it("should refresh EdDSA sessions", async () => {
+      const keyPair = near.KeyPair.fromRandom("ed25519").toString();
+      const { refreshToken } = issueSession(result, {
+        keyPair,
+        ttl: 60_000,
+        refreshTtl: 3_600_000,
+      });
+
+      const session = await refreshSession(refreshToken!, {
+        keyPair,
+        ttl: 60_000,
+      });
+      expect(session.refreshToken).toBeDefined();
+    });
+
+    it("should reject a reused refresh token when given a store", async () => {
+      const refreshTokenStore = createMemoryNonceStore();
+      const { refreshToken } = issueSession(result, {
+        secret,
+        ttl: 60_000,
+        refreshTtl: 3_600_000,
+      });
+
+      const rotated = await refreshSession(refreshToken!, {
+        secret,
+        ttl: 60_000,
+        refreshTokenStore,
+      });
+      await expect(
+        refreshSession(refreshToken!, {
+          secret,
+          ttl: 60_000,
+          refreshTokenStore,
+        }),
+      ).rejects.toThrow(
+        expect.objectContaining({ code: "SESSION_REFRESH_REUSED" }),
+      );
+      await expect(
+        refreshSession(rotated.refreshToken!, {
+          secret,
+          ttl: 60_000,
+          refreshTokenStore,
+        }),
+      ).resolves.toBeDefined();
+    });
+
+    it("should reject expired refresh tokens and session tokens", async () => {
+      vi.useFakeTimers({ now: 1_700_000_000_000 });
+      const { token, refreshToken } = issueSession(result, {
+        secret,
+        ttl: 60_000,
+        refreshTtl: 3_600_000,
+      });
+
+      await expect(
+        refreshSession(token, { secret, ttl: 60_000 }),
+      ).rejects.toThrow(
+        "Session verification failed: expected a refresh token.",
+      );
+
+      vi.setSystemTime(1_700_003_600_000);
+      await expect(
+        refreshSession(refreshToken!, { secret, ttl: 60_000 }),
+      ).rejects.toThrow(expect.objectContaining({ code: "SESSION_EXPIRED" }));
+    });
+
+    it("should report an unavailable store as an infrastructure failure", async () => {
+      const { refreshToken } = issueSession(result, {
+        secret,
+        ttl: 60_000,
+        refreshTtl: 3_600_000,
+      });
+
+      await expect(
+        refreshSession(refreshToken!, {
+          secret,
+          ttl: 60_000,
+          refreshTokenStore: {
+            consume: () => {
+              throw new Error("connection refused");
+            },
+          },
+        }),
+      ).rejects.toThrow(
+        expect.objectContaining({ code: "NONCE_STORE_UNAVAILABLE" }),
+      );
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import * as near from "near-api-js";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { sign } from "../../src/auth/sign.js";
+import { verify } from "../../src/auth/verify.js";
+import {
+  createSignInMessage,
+  parseSignInMessage,
+} from "../../src/siwn/message.js";
+
+describe("Sign-In With NEAR", () => {
+  const fields = {
+    domain: "app.example.com",
+    accountId: "alice.near",
+    statement: "Sign in to Example.",
+    uri: "https://app.example.com/login",
+    networkId: "mainnet",
+    issuedAt: "2024-01-01T00:00:00.000Z",
+  };
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("createSignInMessage", () => {
+    it("should render a human-readable message", () => {
+      expect(
+        createSignInMessage({
+          ...fields,
+          expirationTime: new Date("2024-01-01T00:10:00.000Z"),
+          requestId: "req-1",
+          resources: ["https://app.example.com/profile", "ipfs://bafy"],
+        }),
+      ).toBe(
+        [
+          "app.example.com wants you to sign in with your NEAR account:",
+          "alice.near",
+          "",
+          "Sign in to Example.",
+          "",
+          "URI: https://app.example.com/login",
+          "Version: 1",
+          "Network: mainnet",
+          "Issued At: 2024-01-01T00:00:00.000Z",
+          "Expiration Time: 2024-01-01T00:10:00.000Z",
+          "Request ID: req-1",
+          "Resources:",
+          "- https://app.example.com/profile",
+          "- ipfs://bafy",
+        ].join("\n"),
+      );
+    });
+
+    it("should default issuedAt to now", () => {
+      vi.useFakeTimers({ now: Date.parse("2024-02-02T00:00:00.000Z") });
+      const { issuedAt: _issuedAt, ...rest } = fields;
+
+      expect(createSignInMessage(rest)).toContain(
+        "Issued At: 2024-02-02T00:00:00.000Z",
+      );
+    });
+
+    it("should reject fields that would change the message layout", () => {
+      expect(() =>
+        createSignInMessage({ ...fields, statement: "line 1\nURI: evil" }),
+      ).toThrow(
+        "Invalid Sign-In With NEAR message: statement must be a single line.",
+      );
+      expect(() => createSignInMessage({ ...fields, domain: "" })).toThrow(
+        "Invalid Sign-In With NEAR message: domain is required.",
+      );
+      expect(() =>
+        createSignInMessage({ ...fields, expirationTime: "tomorrow" }),
+      ).toThrow(
+        "Invalid Sign-In With NEAR message: expirationTime is not a date.",
+      );
+    });
+  });
+
+  describe("parseSignInMessage", () => {
+    it("should round-trip every field", () => {
+      const message = {
+        ...fields,
+        version: "1" as const,
+        expirationTime: "2024-01-01T00:10:00.000Z",
+        notBefore: "2024-01-01T00:00:00.000Z",
+        requestId: "req-1",
+        resources: ["https://app.example.com/profile"],
+      };
+
+      expect(parseSignInMessage(createSignInMessage(message))).toEqual(message);
+    });
+
+    it("should parse a message without a statement", () => {
+      const { statement: _statement, ...rest } = fields;
+      const text = createSignInMessage(rest);
+
+      expect(text.split("\n").slice(0, 4)).toEqual([
+        "app.example.com wants you to sign in with your NEAR account:",
+        "alice.near",
+        "",
+        "",
+      ]);
+      expect(parseSignInMessage(text)).toEqual({ ...rest, version: "1" });
+    });
+
+    it("should reject free-form and malformed messages", () => {
+      const text = createSignInMessage(fields);
+
+      expect(() => parseSignInMessage("Sign in please")).toThrow(
+        "Invalid Sign-In With NEAR message: expected the sign-in header (line 1).",
+      );
+      expect(() =>
+        parseSignInMessage(text.replace("Version: 1", "Version: 2")),
+      ).toThrow('unsupported version "2"');
+      expect(() => parseSignInMessage(`${text}\nExtra: field`)).toThrow(
+        "Invalid Sign-In With NEAR message: unexpected content (line 10).",
+      );
+      expect(() =>
+        parseSignInMessage(text.replace("Network: mainnet\n", "")),
+      ).toThrow('expected "Network"');
+    });
+  });
+
+  describe("verify", () => {
+    const keyPair = near.KeyPair.fromRandom("ed25519");
+    const keyResolver = {
+      resolveAccessKey: vi.fn().mockResolvedValue({ type: "FullAccess" }),
+    };
+    const signMessage = (message: string) =>
+      sign(message, {
+        signer: keyPair.toString(),
+        accountId: "alice.near",
+        recipient: "app.near",
+      });
+
+    it("should return the parsed message when it matches the request", async () => {
+      const token = await signMessage(createSignInMessage(fields));
+
+      const result = await verify(token, {
+        keyResolver,
+        signIn: {
+          domain: "app.example.com",
+          uri: "https://app.example.com/login",
+        },
+      });
+      expect(result.signIn).toEqual({ ...fields, version: "1" });
+    });
+
+    it("should reject a message for another domain, account or network", async () => {
+      const cases = [
+        { ...fields, domain: "evil.example.com" },
+        { ...fields, accountId: "bob.near" },
+        { ...fields, networkId: "testnet" },
+      ];
+      for (const message of cases) {
+        const token = await signMessage(createSignInMessage(message));
+        await expect(
+          verify(token, {
+            keyResolver,
+            network: "mainnet",
+            signIn: { domain: "app.example.com" },
+          }),
+        ).rejects.toThrow(
+          expect.objectContaining({ code: "MESSAGE_MISMATCH" }),
+        );
+      }
+    });
+
+    it("should check the network only when the network option is set", async () => {
+      const accountId = Buffer.from(keyPair.getPublicKey().data).toString(
+        "hex",
+      );
+      const token = await sign(
+        createSignInMessage({ ...fields, accountId, networkId: "testnet" }),
+        { signer: keyPair.toString(), accountId, recipient: "app.near" },
+      );
+
+      await expect(verify(token, { signIn: {} })).resolves.toMatchObject({
+        accountId,
+        signIn: { networkId: "testnet" },
+      });
+      await expect(
+        verify(token, { network: "testnet", signIn: {} }),
+      ).resolves.toMatchObject({ accountId });
+      await expect(
+        verify(token, { network: "mainnet", signIn: {} }),
+      ).rejects.toThrow(expect.objectContaining({ code: "MESSAGE_MISMATCH" }));
+    });
+
+    it("should reject an expired or not yet valid message", async () => {
+      const now = Date.now();
+      const expired = await signMessage(
+        createSignInMessage({
+          ...fields,
+          expirationTime: new Date(now - 1000),
+        }),
+      );
+      const early = await signMessage(
+        createSignInMessage({ ...fields, notBefore: new Date(now + 60_000) }),
+      );
+
+      await expect(
+        verify(expired, { keyResolver, signIn: {} }),
+      ).rejects.toThrow(expect.objectContaining({ code: "TOKEN_EXPIRED" }));
+      await expect(verify(early, { keyResolver, signIn: {} })).rejects.toThrow(
+        expect.objectContaining({ code: "TOKEN_NOT_YET_VALID" }),
+      );
+    });
+
+    it("should reject a free-form message and ignore it without signIn", async () => {
+      const token = await signMessage("hello");
+
+      await expect(verify(token, { keyResolver, signIn: {} })).rejects.toThrow(
+        expect.objectContaining({ code: "MESSAGE_MISMATCH" }),
+      );
+      expect((await verify(token, { keyResolver })).signIn).toBeUndefined();
+    });
+  });
+});
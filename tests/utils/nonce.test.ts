@@ -1,4 +1,5 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NonceValidationError } from "../../src/errors.js";
 import { generateNonce, validateNonce } from "../../src/utils/nonce.js";
 
 describe("Nonce Utilities", () => {
@@ -55,6 +56,28 @@ describe("Nonce Utilities", () => {
       expect(() => validateNonce(nonce, 60 * 60 * 1000)).toThrow("expired"); // 1 hour max age
     });
 
+    it("should throw NonceValidationError with a stable code", () => {
+      const encoder = new TextEncoder();
+      const expiredNonce = new Uint8Array(32);
+      expiredNonce.set(
+        encoder.encode((Date.now() - 1000).toString().padStart(16, "0")),
+      );
+      const futureNonce = new Uint8Array(32);
+      futureNonce.set(
+        encoder.encode((Date.now() + 60000).toString().padStart(16, "0")),
+      );
+
+      expect(() => validateNonce(expiredNonce, 1)).toThrow(
+        expect.objectContaining({ code: "NONCE_EXPIRED" }),
+      );
+      expect(() => validateNonce(futureNonce)).toThrow(
+        expect.objectContaining({ code: "NONCE_IN_FUTURE" }),
+      );
+      expect(() => validateNonce(new Uint8Array(16))).toThrow(
+        NonceValidationError,
+      );
+    });
+
     it("should accept a nonce within maxAge", () => {
       const recentTime = Date.now() - 60 * 60 * 1000; // 1 hour ago
       const recentTimeStr = recentTime.toString().padStart(16, "0");
@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createMemoryNonceStore } from "../../src/utils/nonceStore.js";
+
+describe("createMemoryNonceStore", () => {
+  const nonce = new Uint8Array(32).fill(1);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should consume an unseen nonce once", () => {
+    const store = createMemoryNonceStore();
+    const expiresAt = Date.now() + 1000;
+
+    expect(store.consume("alice.near", nonce, expiresAt)).toBe(true);
+    expect(store.consume("alice.near", nonce, expiresAt)).toBe(false);
+  });
+
+  it("should track nonces per account", () => {
+    const store = createMemoryNonceStore();
+    const expiresAt = Date.now() + 1000;
+
+    expect(store.consume("alice.near", nonce, expiresAt)).toBe(true);
+    expect(store.consume("bob.near", nonce, expiresAt)).toBe(true);
+  });
+
+  it("should forget nonces after they expire", () => {
+    const store = createMemoryNonceStore();
+    store.consume("alice.near", nonce, Date.now() + 1000);
+
+    vi.advanceTimersByTime(1001);
+
+    expect(store.consume("alice.near", nonce, Date.now() + 1000)).toBe(true);
+  });
+
+  it("should sweep expired entries", () => {
+    const store = createMemoryNonceStore();
+    store.consume("alice.near", nonce, Date.now() + 1000);
+    store.consume("bob.near", nonce, Date.now() + 1000);
+    expect(store.size()).toBe(2);
+
+    vi.advanceTimersByTime(2 * 60 * 1000);
+    store.consume("carol.near", nonce, Date.now() + 1000);
+
+    expect(store.size()).toBe(1);
+  });
+});
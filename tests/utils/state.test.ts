@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { generateNonce, validateNonce } from "../../src/utils/nonce.js";
+import {
+  bindStateToNonce,
+  bindValidityToNonce,
+  hasBoundValidity,
+  isStateBoundToNonce,
+  isValidityBoundToNonce,
+} from "../../src/utils/state.js";
+
+describe("state binding", () => {
+  it("should keep the timestamp and salt and replace the last 12 bytes", () => {
+    const nonce = generateNonce();
+    const bound = bindStateToNonce(nonce, "state-1");
+
+    expect(bound.length).toBe(32);
+    expect(bound.slice(0, 20)).toEqual(nonce.slice(0, 20));
+    expect(bound.slice(20)).not.toEqual(nonce.slice(20));
+    expect(() => validateNonce(bound)).not.toThrow();
+  });
+
+  it("should not modify the input nonce", () => {
+    const nonce = generateNonce();
+    const copy = nonce.slice();
+    bindStateToNonce(nonce, "state-1");
+    expect(nonce).toEqual(copy);
+  });
+
+  it("should verify only the bound state", () => {
+    const bound = bindStateToNonce(generateNonce(), "state-1");
+
+    expect(isStateBoundToNonce(bound, "state-1")).toBe(true);
+    expect(isStateBoundToNonce(bound, "state-2")).toBe(false);
+    expect(isStateBoundToNonce(bound, "")).toBe(false);
+  });
+
+  it("should reject a nonce whose timestamp or salt was changed", () => {
+    const bound = bindStateToNonce(generateNonce(), "state-1");
+    const altered = bound.slice();
+    altered[19] ^= 1;
+
+    expect(isStateBoundToNonce(altered, "state-1")).toBe(false);
+  });
+
+  it("should not treat an unbound nonce as bound", () => {
+    expect(isStateBoundToNonce(generateNonce(), "state-1")).toBe(false);
+    expect(isStateBoundToNonce(new Uint8Array(16), "state-1")).toBe(false);
+  });
+
+  it("should throw for a nonce that is not 32 bytes", () => {
+    expect(() => bindStateToNonce(new Uint8Array(16), "state-1")).toThrow(
+      "Expected a 32-byte nonce, got 16 bytes.",
+    );
+  });
+});
+
+describe("validity binding", () => {
+  const validity = {
+    expiresAt: 1_700_000_060_000,
+    notBefore: 1_700_000_000_000,
+  };
+
+  it("should bind the validity period and the state", () => {
+    const nonce = generateNonce();
+    const bound = bindValidityToNonce(nonce, validity, "state-1");
+
+    expect(bound.slice(3, 20)).toEqual(nonce.slice(3, 20));
+    expect(() => validateNonce(bound)).not.toThrow();
+    expect(isValidityBoundToNonce(bound, validity, "state-1")).toBe(true);
+    expect(
+      isValidityBoundToNonce(
+        bound,
+        { ...validity, expiresAt: validity.expiresAt + 1 },
+        "state-1",
+      ),
+    ).toBe(false);
+    expect(
+      isValidityBoundToNonce(
+        bound,
+        { expiresAt: validity.expiresAt },
+        "state-1",
+      ),
+    ).toBe(false);
+    expect(isValidityBoundToNonce(bound, validity, "state-2")).toBe(false);
+    expect(isValidityBoundToNonce(bound, validity)).toBe(false);
+  });
+
+  it("should not be confused with state binding", () => {
+    const bound = bindStateToNonce(generateNonce(), "state-1");
+
+    expect(isValidityBoundToNonce(bound, {}, "state-1")).toBe(false);
+    expect(hasBoundValidity(bound)).toBe(false);
+  });
+
+  it("should mark validity-bound nonces in the timestamp padding", () => {
+    const nonce = generateNonce();
+    const bound = bindValidityToNonce(nonce, validity);
+    const unmarked = bound.slice();
+    unmarked.set(nonce.subarray(0, 3), 0);
+
+    expect(new TextDecoder().decode(bound.subarray(0, 4))).toMatch(/^ {3}\d$/);
+    expect(hasBoundValidity(bound)).toBe(true);
+    expect(hasBoundValidity(unmarked)).toBe(false);
+    expect(isValidityBoundToNonce(unmarked, validity)).toBe(false);
+    expect(hasBoundValidity(nonce)).toBe(false);
+  });
+
+  it("should not treat a random nonce starting with a space as bound", () => {
+    const nonce = crypto.getRandomValues(new Uint8Array(32));
+    nonce[0] = 0x20;
+    nonce[1] = 0xff;
+
+    expect(hasBoundValidity(nonce)).toBe(false);
+  });
+
+  it("should throw for a nonce whose timestamp is not zero-padded", () => {
+    const nonce = generateNonce();
+    nonce[0] = 0x31;
+
+    expect(() => bindValidityToNonce(nonce, validity)).toThrow(
+      "Cannot bind a validity period to a nonce whose timestamp is not zero-padded.",
+    );
+  });
+});